@@ -0,0 +1,129 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import {
+  ACTION_LABELS,
+  DEFAULT_BINDINGS,
+  GAME_ACTIONS,
+  GameAction,
+  gamepadButtonLabel,
+  InputBindings,
+  keyLabel,
+  saveBindings
+} from './InputController'
+
+interface BindingsPanelProps {
+  bindings: InputBindings
+  onChange: (bindings: InputBindings) => void
+  onClose: () => void
+}
+
+type Capture = { action: GameAction; device: 'keyboard' | 'gamepad' } | null
+
+// Remapping screen: "Rebind" waits for the next key or gamepad button and assigns it to the action
+export default function BindingsPanel({ bindings, onChange, onClose }: BindingsPanelProps) {
+  const [capture, setCapture] = useState<Capture>(null)
+
+  const update = (next: InputBindings) => {
+    saveBindings(next)
+    onChange(next)
+  }
+
+  useEffect(() => {
+    if (!capture) return
+
+    if (capture.device === 'keyboard') {
+      const handleKeyDown = (e: KeyboardEvent) => {
+        e.preventDefault()
+        e.stopImmediatePropagation()
+        setCapture(null)
+        // Escape cancels instead of binding
+        if (e.code === 'Escape') return
+        update({ ...bindings, keyboard: { ...bindings.keyboard, [capture.action]: [e.code] } })
+      }
+      // Capture phase so the game's own listener never sees the key
+      window.addEventListener('keydown', handleKeyDown, true)
+      return () => window.removeEventListener('keydown', handleKeyDown, true)
+    }
+
+    // Gamepads have no events for buttons, so poll until one goes down that was up when we started
+    const held = new Set<number>()
+    let frame = 0
+    let first = true
+    const poll = () => {
+      const pad = Array.from(navigator.getGamepads?.() ?? []).find(p => p && p.connected)
+      if (pad) {
+        const index = pad.buttons.findIndex((button, i) => button.pressed && !held.has(i))
+        if (first) {
+          pad.buttons.forEach((button, i) => button.pressed && held.add(i))
+        } else if (index !== -1) {
+          setCapture(null)
+          update({ ...bindings, gamepad: { ...bindings.gamepad, [capture.action]: [index] } })
+          return
+        }
+        first = false
+      }
+      frame = requestAnimationFrame(poll)
+    }
+    frame = requestAnimationFrame(poll)
+    return () => cancelAnimationFrame(frame)
+  }, [capture, bindings])
+
+  const isCapturing = (action: GameAction, device: 'keyboard' | 'gamepad') =>
+    capture?.action === action && capture.device === device
+
+  return (
+    <div style={{
+      position: 'fixed',
+      inset: 0,
+      display: 'flex',
+      justifyContent: 'center',
+      alignItems: 'center',
+      background: 'rgba(0,0,0,0.6)'
+    }}>
+      <div style={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: 12,
+        padding: 24,
+        borderRadius: '10px',
+        background: '#2C3E50',
+        color: '#ffffff',
+        minWidth: 420
+      }}>
+        <h2 style={{ margin: 0 }}>Controls</h2>
+        <table style={{ borderCollapse: 'collapse' }}>
+          <thead>
+            <tr style={{ textAlign: 'left' }}>
+              <th>Action</th>
+              <th>Keyboard</th>
+              <th>Gamepad</th>
+            </tr>
+          </thead>
+          <tbody>
+            {GAME_ACTIONS.map(action => (
+              <tr key={action}>
+                <td style={{ padding: '4px 12px 4px 0' }}>{ACTION_LABELS[action]}</td>
+                <td style={{ padding: '4px 12px 4px 0' }}>
+                  <button onClick={() => setCapture({ action, device: 'keyboard' })}>
+                    {isCapturing(action, 'keyboard') ? 'Press a key…' : bindings.keyboard[action].map(keyLabel).join(', ') || '—'}
+                  </button>
+                </td>
+                <td style={{ padding: '4px 0' }}>
+                  <button onClick={() => setCapture({ action, device: 'gamepad' })}>
+                    {isCapturing(action, 'gamepad') ? 'Press a button…' : bindings.gamepad[action].map(gamepadButtonLabel).join(', ') || '—'}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <p style={{ margin: 0, opacity: 0.7 }}>Click a binding, then press the new key or button. Escape cancels.</p>
+        <div style={{ display: 'flex', gap: 6, justifyContent: 'flex-end' }}>
+          <button onClick={() => update(DEFAULT_BINDINGS)}>Reset to defaults</button>
+          <button onClick={onClose}>Done</button>
+        </div>
+      </div>
+    </div>
+  )
+}
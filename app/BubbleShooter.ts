@@ -1,120 +1,122 @@
-type BubbleColor = 'red' | 'blue' | 'green' | 'yellow' | 'purple' | 'orange' | 'cyan' | 'pink' | 'rainbow' | 'bomb' | 'freeze'
+import GameEngine from './GameEngine'
+import InputController, { DEFAULT_BINDINGS, GameAction, InputBindings } from './InputController'
+import { BubbleStyle, DEFAULT_BUBBLE_STYLE, drawBubble } from './bubbleArt'
+import EffectSystem from './effects'
+import { LOSE_MESSAGES } from './objectives'
+import { ReplayFile, ReplayPlayer, ReplayRecorder } from './replayFile'
+import { AIM_ASSIST_PRESETS } from './settings'
+import type { ScoreEvent, ScoreEventKind } from './scoring'
+import type { AimAssistSettings, Bubble, GameCommand, GameEvent, GameStatus, LevelConfig } from './types'
+
+export interface BubbleShooterOptions {
+  seed?: number
+  levels?: LevelConfig[]
+  startLevel?: number
+  aimAssist?: AimAssistSettings
+  bindings?: InputBindings
+  bubbleStyle?: BubbleStyle
+  // Plays this recording back instead of taking input
+  replay?: ReplayFile
+}
 
-interface Bubble {
-  x: number
-  y: number
-  color: BubbleColor
-  row: number
-  col: number
-  radius: number
-  isPopping?: boolean
-  popProgress?: number
+// Where the board sits on the canvas, in CSS pixels
+interface BoardView {
+  scale: number
+  offsetX: number
+  offsetY: number
+  portrait: boolean
 }
 
-interface ShootingBubble {
+interface ScorePopup {
+  text: string
   x: number
   y: number
-  vx: number
-  vy: number
-  color: BubbleColor
-  radius: number
+  // Seconds since the popup appeared
+  age: number
+  color: string
+  size: number
 }
 
-interface LevelConfig {
-  colors: number
-  speed: number
-  patterns: string[][]
-  hasPowerUps: boolean
-  hasObstacles: boolean
-  timeLimit?: number
-  rowSpeed?: number
+// Commands that leave the menu for a new run
+const STARTS_RUN: GameCommand['type'][] = ['confirm', 'selectLevel', 'startEndless', 'selectPuzzle']
+
+const POPUP_COLORS: Record<ScoreEventKind, string> = {
+  match: '#ffffff',
+  drop: '#7BED9F',
+  bomb: '#FF6B6B',
+  combo: '#FFD700',
+  bankShot: '#70A1FF',
+  avalanche: '#ECCC68',
+  clear: '#2ED573',
+  timeBonus: '#A8D8FF'
 }
 
 export default class BubbleShooter {
   private canvas: HTMLCanvasElement
   private ctx: CanvasRenderingContext2D
+  // Logical board size that everything is drawn and aimed in; the canvas itself matches its
+  // CSS box at the screen's pixel density, and the board is scaled to fit inside it
   private width: number
   private height: number
+  private pixelRatio: number = 1
+  private view: BoardView = { scale: 1, offsetX: 0, offsetY: 0, portrait: false }
+  private resizeObserver: ResizeObserver | null = null
+  // Follows the system's prefers-reduced-motion setting
+  private reducedMotion: MediaQueryList | null = null
   private running: boolean = false
   private animationId: number | null = null
-
-  // Game state
-  private level: number = 1
-  private score: number = 0
-  private lives: number = 3
-  private combo: number = 0
-  private maxCombo: number = 0
-
-  // Bubble grid
-  private bubbles: (Bubble | null)[][] = []
-  private readonly BUBBLE_RADIUS = 20
-  private readonly ROWS = 10
-  private readonly COLS = 15
-  private readonly BUBBLE_SPACING = 42
-
-  // Shooter
-  private shooterX: number
-  private shooterY: number
-  private currentBubble: BubbleColor | null = null
-  private nextBubble: BubbleColor | null = null
-  private shootingBubble: ShootingBubble | null = null
-  private aimAngle: number = -Math.PI / 2
-
-  // Mouse/Touch
-  private mouseX: number = 0
-  private mouseY: number = 0
-
-  // Level configs
-  private readonly LEVELS: LevelConfig[] = [
-    { colors: 3, speed: 1, patterns: [], hasPowerUps: false, hasObstacles: false },
-    { colors: 4, speed: 1.1, patterns: [], hasPowerUps: false, hasObstacles: false },
-    { colors: 4, speed: 1.2, patterns: [], hasPowerUps: false, hasObstacles: false },
-    { colors: 5, speed: 1.3, patterns: [], hasPowerUps: false, hasObstacles: false },
-    { colors: 5, speed: 1.4, patterns: [], hasPowerUps: false, hasObstacles: false, rowSpeed: 0.05 },
-    { colors: 5, speed: 1.5, patterns: [], hasPowerUps: true, hasObstacles: false, rowSpeed: 0.08 },
-    { colors: 6, speed: 1.6, patterns: [], hasPowerUps: true, hasObstacles: false, rowSpeed: 0.1 },
-    { colors: 6, speed: 1.7, patterns: [], hasPowerUps: true, hasObstacles: false, rowSpeed: 0.12 },
-    { colors: 6, speed: 1.8, patterns: [], hasPowerUps: true, hasObstacles: true, rowSpeed: 0.15 },
-    { colors: 6, speed: 1.9, patterns: [], hasPowerUps: true, hasObstacles: true, rowSpeed: 0.18 },
-    { colors: 7, speed: 2, patterns: [], hasPowerUps: true, hasObstacles: true, rowSpeed: 0.2 },
-    { colors: 7, speed: 2.1, patterns: [], hasPowerUps: true, hasObstacles: true, rowSpeed: 0.22 },
-    { colors: 7, speed: 2.2, patterns: [], hasPowerUps: true, hasObstacles: true, rowSpeed: 0.25 },
-    { colors: 7, speed: 2.3, patterns: [], hasPowerUps: true, hasObstacles: true, timeLimit: 180, rowSpeed: 0.28 },
-    { colors: 8, speed: 2.4, patterns: [], hasPowerUps: true, hasObstacles: true, rowSpeed: 0.3 },
-    { colors: 8, speed: 2.5, patterns: [], hasPowerUps: true, hasObstacles: true, rowSpeed: 0.32 },
-    { colors: 8, speed: 2.6, patterns: [], hasPowerUps: true, hasObstacles: true, rowSpeed: 0.35 },
-    { colors: 8, speed: 2.7, patterns: [], hasPowerUps: true, hasObstacles: true, rowSpeed: 0.38 },
-    { colors: 8, speed: 2.8, patterns: [], hasPowerUps: true, hasObstacles: true, rowSpeed: 0.4 },
-    { colors: 8, speed: 3, patterns: [], hasPowerUps: true, hasObstacles: true, rowSpeed: 0.5 }
-  ]
-
-  private readonly COLOR_MAP: { [key: string]: string } = {
-    red: '#FF4757',
-    blue: '#5352ED',
-    green: '#2ED573',
-    yellow: '#FFA502',
-    purple: '#A55EEA',
-    orange: '#FF6348',
-    cyan: '#00D2D3',
-    pink: '#FF6B9D',
-    rainbow: '#FFFFFF',
-    bomb: '#2F3542',
-    freeze: '#70A1FF'
-  }
-
-  private gameState: 'playing' | 'won' | 'lost' | 'menu' = 'menu'
-  private rowOffset: number = 0
-
-  constructor(canvas: HTMLCanvasElement) {
+  private lastFrameTime: number | null = null
+
+  private engine: GameEngine
+  private aimAssist: AimAssistSettings
+  private bubbleStyle: BubbleStyle
+  private input: InputController
+  private levels: LevelConfig[] | undefined
+  private recorder: ReplayRecorder | null = null
+  private player: ReplayPlayer | null = null
+  // Subscribers from outside, kept here so they follow the engine when it's swapped for a fresh one
+  private listeners: ((event: GameEvent) => void)[] = []
+  private popups: ScorePopup[] = []
+  private effects: EffectSystem
+  private unwatchEngine: (() => void) | null = null
+
+  // Radians per second when aiming with keys or the d-pad
+  private readonly AIM_SPEED = 1.5
+  private readonly FINE_AIM_FACTOR = 0.25
+  // Seconds a score popup floats before it's gone, and how far it rises meanwhile
+  private readonly POPUP_DURATION = 1.2
+  private readonly POPUP_RISE = 50
+  // Narrow portrait screens get the HUD in a strip above the board
+  private readonly PORTRAIT_MAX_WIDTH = 700
+  private readonly PORTRAIT_HUD_HEIGHT = 100
+
+  // The canvas must get its size from CSS; its pixel size is managed here
+  constructor(canvas: HTMLCanvasElement, options: BubbleShooterOptions = {}) {
     this.canvas = canvas
     const ctx = canvas.getContext('2d')
     if (!ctx) throw new Error('Could not get 2D context')
     this.ctx = ctx
-    this.width = canvas.width
-    this.height = canvas.height
 
-    this.shooterX = this.width / 2
-    this.shooterY = this.height - 60
+    this.levels = options.levels
+    if (options.replay) {
+      this.player = new ReplayPlayer(options.replay)
+      this.engine = this.player.engine
+    } else {
+      this.engine = new GameEngine({
+        seed: options.seed,
+        levels: options.levels,
+        startLevel: options.startLevel
+      })
+      this.recorder = new ReplayRecorder(this.engine, { levels: options.levels, startLevel: options.startLevel })
+    }
+    this.width = this.engine.width
+    this.height = this.engine.height
+    this.resize()
+    this.bubbleStyle = options.bubbleStyle ?? DEFAULT_BUBBLE_STYLE
+    this.effects = new EffectSystem(this.height, this.engine.seed, this.bubbleStyle)
+    this.watchEngine(this.engine)
+    this.aimAssist = options.aimAssist ?? AIM_ASSIST_PRESETS.normal
+    this.input = new InputController(options.bindings ?? DEFAULT_BINDINGS, action => this.handleAction(action))
 
     this.setupEventListeners()
   }
@@ -124,683 +126,713 @@ export default class BubbleShooter {
     this.canvas.addEventListener('click', this.handleClick.bind(this))
     this.canvas.addEventListener('touchmove', this.handleTouchMove.bind(this))
     this.canvas.addEventListener('touchstart', this.handleTouchStart.bind(this))
+    this.canvas.addEventListener('contextmenu', this.handleContextMenu.bind(this))
   }
 
   private handleMouseMove(e: MouseEvent) {
-    const rect = this.canvas.getBoundingClientRect()
-    this.mouseX = (e.clientX - rect.left) * (this.width / rect.width)
-    this.mouseY = (e.clientY - rect.top) * (this.height / rect.height)
-    this.updateAimAngle()
+    this.aimAt(e.clientX, e.clientY)
   }
 
   private handleTouchMove(e: TouchEvent) {
     e.preventDefault()
     if (e.touches.length === 0) return
-    const rect = this.canvas.getBoundingClientRect()
-    this.mouseX = (e.touches[0].clientX - rect.left) * (this.width / rect.width)
-    this.mouseY = (e.touches[0].clientY - rect.top) * (this.height / rect.height)
-    this.updateAimAngle()
+    this.aimAt(e.touches[0].clientX, e.touches[0].clientY)
   }
 
   private handleClick(e: MouseEvent) {
-    if (this.gameState === 'menu') {
-      this.startLevel(1)
-      return
-    }
-    if (this.gameState === 'won' || this.gameState === 'lost') {
-      this.gameState = 'menu'
-      this.level = 1
-      this.score = 0
-      this.lives = 3
-      return
-    }
-    this.shoot()
+    this.handleAction(this.pointerAction(e.clientX, e.clientY))
   }
 
   private handleTouchStart(e: TouchEvent) {
     e.preventDefault()
-    if (this.gameState === 'menu') {
-      this.startLevel(1)
-      return
-    }
-    if (this.gameState === 'won' || this.gameState === 'lost') {
-      this.gameState = 'menu'
-      this.level = 1
-      this.score = 0
-      this.lives = 3
-      return
-    }
-    this.shoot()
-  }
-
-  private updateAimAngle() {
-    const dx = this.mouseX - this.shooterX
-    const dy = this.mouseY - this.shooterY
-    if (dy < 0) {
-      this.aimAngle = Math.atan2(dy, dx)
-      // Clamp angle
-      const minAngle = -Math.PI + 0.3
-      const maxAngle = -0.3
-      if (this.aimAngle < minAngle) this.aimAngle = minAngle
-      if (this.aimAngle > maxAngle) this.aimAngle = maxAngle
-    }
+    const touch = e.touches[0]
+    this.handleAction(touch ? this.pointerAction(touch.clientX, touch.clientY) : 'fire')
   }
 
-  private shoot() {
-    if (this.shootingBubble || !this.currentBubble || this.gameState !== 'playing') return
-
-    const speed = 12
-    this.shootingBubble = {
-      x: this.shooterX,
-      y: this.shooterY - 30,
-      vx: Math.cos(this.aimAngle) * speed,
-      vy: Math.sin(this.aimAngle) * speed,
-      color: this.currentBubble,
-      radius: this.BUBBLE_RADIUS
-    }
-
-    this.currentBubble = this.nextBubble
-    this.nextBubble = this.getRandomColor()
+  // Tapping the next bubble swaps and tapping the undo button undoes; anywhere else fires
+  private pointerAction(clientX: number, clientY: number): GameAction {
+    if (this.isOnUndo(clientX, clientY)) return 'undo'
+    return this.isOnPreview(clientX, clientY) ? 'swap' : 'fire'
   }
 
-  private getRandomColor(): BubbleColor {
-    const config = this.LEVELS[this.level - 1]
-    const colors: BubbleColor[] = ['red', 'blue', 'green', 'yellow', 'purple', 'orange', 'cyan', 'pink']
-    const availableColors = colors.slice(0, config.colors)
+  // Right-click swaps instead of opening the browser menu
+  private handleContextMenu(e: MouseEvent) {
+    e.preventDefault()
+    this.handleAction('swap')
+  }
 
-    // Occasionally add power-ups
-    if (config.hasPowerUps && Math.random() < 0.1) {
-      const powerUps: BubbleColor[] = ['rainbow', 'bomb', 'freeze']
-      return powerUps[Math.floor(Math.random() * powerUps.length)]
+  private toCanvas(clientX: number, clientY: number): { x: number; y: number } {
+    const rect = this.canvas.getBoundingClientRect()
+    const { scale, offsetX, offsetY } = this.view
+    return {
+      x: (clientX - rect.left - this.canvas.clientLeft - offsetX) / scale,
+      y: (clientY - rect.top - this.canvas.clientTop - offsetY) / scale
     }
+  }
 
-    return availableColors[Math.floor(Math.random() * availableColors.length)]
-  }
-
-  private initBubbles() {
-    this.bubbles = []
-    const config = this.LEVELS[this.level - 1]
-
-    for (let row = 0; row < 5; row++) {
-      this.bubbles[row] = []
-      const cols = row % 2 === 0 ? this.COLS : this.COLS - 1
-      for (let col = 0; col < cols; col++) {
-        if (Math.random() < 0.8) {
-          this.bubbles[row][col] = {
-            x: this.getBubbleX(row, col),
-            y: this.getBubbleY(row),
-            color: this.getRandomColor(),
-            row,
-            col,
-            radius: this.BUBBLE_RADIUS
-          }
-        } else {
-          this.bubbles[row][col] = null
-        }
-      }
-    }
+  // Matches the canvas to its CSS box and fits the board inside. Play carries on untouched, since
+  // only the view changes.
+  private resize = () => {
+    const cssWidth = this.canvas.clientWidth || this.width
+    const cssHeight = this.canvas.clientHeight || this.height
+    this.pixelRatio = window.devicePixelRatio || 1
+    this.canvas.width = Math.round(cssWidth * this.pixelRatio)
+    this.canvas.height = Math.round(cssHeight * this.pixelRatio)
 
-    for (let row = 5; row < this.ROWS; row++) {
-      this.bubbles[row] = []
+    const portrait = cssHeight > cssWidth && cssWidth <= this.PORTRAIT_MAX_WIDTH
+    const hud = portrait ? this.PORTRAIT_HUD_HEIGHT : 0
+    const scale = Math.min(cssWidth / this.width, cssHeight / (this.height + hud))
+    this.view = {
+      scale,
+      offsetX: (cssWidth - this.width * scale) / 2,
+      offsetY: (cssHeight - (this.height + hud) * scale) / 2 + hud * scale,
+      portrait
     }
   }
 
-  private getBubbleX(row: number, col: number): number {
-    const offset = row % 2 === 0 ? 0 : this.BUBBLE_SPACING / 2
-    return offset + col * this.BUBBLE_SPACING + this.BUBBLE_SPACING
+  private aimAt(clientX: number, clientY: number) {
+    const { x, y } = this.toCanvas(clientX, clientY)
+    this.dispatch({ type: 'aimAt', x, y })
   }
 
-  private getBubbleY(row: number): number {
-    return row * this.BUBBLE_SPACING * 0.87 + this.BUBBLE_SPACING + this.rowOffset
+  private isOnPreview(clientX: number, clientY: number): boolean {
+    const { x, y } = this.toCanvas(clientX, clientY)
+    return x >= this.width - 80 && x <= this.width - 10 && y >= this.height - 80 && y <= this.height - 10
   }
 
-  private startLevel(level: number) {
-    this.level = level
-    this.gameState = 'playing'
-    this.initBubbles()
-    this.currentBubble = this.getRandomColor()
-    this.nextBubble = this.getRandomColor()
-    this.combo = 0
-    this.rowOffset = 0
-  }
-
-  start() {
-    this.running = true
-    this.gameLoop()
+  private isOnUndo(clientX: number, clientY: number): boolean {
+    if (this.engine.mode !== 'puzzle') return false
+    const { x, y } = this.toCanvas(clientX, clientY)
+    return x >= 10 && x <= 100 && y >= this.height - 50 && y <= this.height - 10
   }
 
-  stop() {
-    this.running = false
-    if (this.animationId) {
-      cancelAnimationFrame(this.animationId)
+  private handleAction(action: GameAction) {
+    const state = this.engine.gameState
+    switch (action) {
+      case 'fire':
+        // Fire doubles as confirm on menus so one button is enough to play
+        this.dispatch(state === 'playing' ? { type: 'fire' } : { type: 'confirm' })
+        break
+      case 'swap':
+        if (state === 'playing') this.dispatch({ type: 'swap' })
+        break
+      case 'undo':
+        if (state === 'playing') this.dispatch({ type: 'undo' })
+        break
+      case 'pause':
+        if (state === 'playing') this.dispatch({ type: 'pause' })
+        if (state === 'paused') this.dispatch({ type: 'resume' })
+        if (state === 'settings') this.dispatch({ type: 'closeSettings' })
+        break
+      case 'confirm':
+        if (state !== 'playing') this.dispatch({ type: 'confirm' })
+        break
     }
   }
 
-  private gameLoop = () => {
-    if (!this.running) return
-
-    this.update()
-    this.render()
-
-    this.animationId = requestAnimationFrame(this.gameLoop)
+  private handleMotionChange = () => {
+    this.effects.reducedMotion = this.prefersReducedMotion
   }
 
-  private update() {
-    if (this.gameState !== 'playing') return
-
-    // Update shooting bubble
-    if (this.shootingBubble) {
-      this.shootingBubble.x += this.shootingBubble.vx
-      this.shootingBubble.y += this.shootingBubble.vy
-
-      // Wall collision
-      if (this.shootingBubble.x - this.BUBBLE_RADIUS < 0) {
-        this.shootingBubble.x = this.BUBBLE_RADIUS
-        this.shootingBubble.vx *= -1
-      }
-      if (this.shootingBubble.x + this.BUBBLE_RADIUS > this.width) {
-        this.shootingBubble.x = this.width - this.BUBBLE_RADIUS
-        this.shootingBubble.vx *= -1
-      }
-
-      // Check collision with grid bubbles
-      const collision = this.checkBubbleCollision(this.shootingBubble)
-      if (collision || this.shootingBubble.y - this.BUBBLE_RADIUS < 0) {
-        this.addBubbleToGrid(this.shootingBubble)
-        this.shootingBubble = null
-      }
-    }
-
-    // Update popping animations
-    for (let row = 0; row < this.bubbles.length; row++) {
-      for (let col = 0; col < this.bubbles[row].length; col++) {
-        const bubble = this.bubbles[row][col]
-        if (bubble?.isPopping) {
-          bubble.popProgress = (bubble.popProgress || 0) + 0.1
-          if (bubble.popProgress >= 1) {
-            this.bubbles[row][col] = null
-          }
-        }
-      }
-    }
-
-    // Update row offset for moving rows
-    const config = this.LEVELS[this.level - 1]
-    if (config.rowSpeed) {
-      this.rowOffset += config.rowSpeed
-      this.updateBubblePositions()
-
-      // Check if bubbles reached bottom
-      if (this.checkGameOver()) {
-        this.lives--
-        if (this.lives <= 0) {
-          this.gameState = 'lost'
-        } else {
-          this.rowOffset = 0
-          this.updateBubblePositions()
-        }
-      }
-    }
-
-    // Check win condition
-    if (this.checkLevelComplete()) {
-      if (this.level >= 20) {
-        this.gameState = 'won'
-      } else {
-        this.level++
-        this.startLevel(this.level)
-      }
-    }
+  private get prefersReducedMotion(): boolean {
+    return this.reducedMotion?.matches ?? false
   }
 
-  private updateBubblePositions() {
-    for (let row = 0; row < this.bubbles.length; row++) {
-      for (let col = 0; col < this.bubbles[row].length; col++) {
-        const bubble = this.bubbles[row][col]
-        if (bubble) {
-          bubble.y = this.getBubbleY(row)
-        }
-      }
+  private handleVisibilityChange = () => {
+    if (document.hidden && this.engine.gameState === 'playing') {
+      this.dispatch({ type: 'pause' })
     }
   }
 
-  private checkGameOver(): boolean {
-    for (let row = 0; row < this.bubbles.length; row++) {
-      for (let col = 0; col < this.bubbles[row].length; col++) {
-        const bubble = this.bubbles[row][col]
-        if (bubble && bubble.y + this.BUBBLE_RADIUS > this.shooterY - 50) {
-          return true
-        }
-      }
+  // Held keys and the analog stick are sampled once per frame
+  private applyHeldInput(dt: number) {
+    const state = this.input.poll()
+    if (state.stick) {
+      // Pointing the stick down still aims sideways; the engine clamps to its aim range
+      const angle = state.stick.y < 0 ? Math.atan2(state.stick.y, state.stick.x) : state.stick.x < 0 ? -Math.PI : 0
+      this.dispatch({ type: 'aim', angle })
+    } else if (state.aim !== 0) {
+      const speed = this.AIM_SPEED * (state.fine ? this.FINE_AIM_FACTOR : 1)
+      this.dispatch({ type: 'aim', angle: this.engine.aimAngle + state.aim * speed * dt })
     }
-    return false
   }
 
-  private checkLevelComplete(): boolean {
-    for (let row = 0; row < this.bubbles.length; row++) {
-      for (let col = 0; col < this.bubbles[row].length; col++) {
-        if (this.bubbles[row][col]) return false
-      }
-    }
-    return true
-  }
-
-  private checkBubbleCollision(shooting: ShootingBubble): boolean {
-    for (let row = 0; row < this.bubbles.length; row++) {
-      for (let col = 0; col < this.bubbles[row].length; col++) {
-        const bubble = this.bubbles[row][col]
-        if (bubble && !bubble.isPopping) {
-          const dx = shooting.x - bubble.x
-          const dy = shooting.y - bubble.y
-          const dist = Math.sqrt(dx * dx + dy * dy)
-          if (dist < this.BUBBLE_RADIUS * 2) {
-            return true
-          }
-        }
-      }
-    }
-    return false
+  setAimAssist(settings: AimAssistSettings) {
+    this.aimAssist = settings
   }
 
-  private addBubbleToGrid(shooting: ShootingBubble) {
-    // Find closest grid position
-    let closestRow = Math.round((shooting.y - this.BUBBLE_SPACING - this.rowOffset) / (this.BUBBLE_SPACING * 0.87))
-    closestRow = Math.max(0, Math.min(this.ROWS - 1, closestRow))
+  setBubbleStyle(style: BubbleStyle) {
+    this.bubbleStyle = style
+    this.effects.style = style
+  }
 
-    const offset = closestRow % 2 === 0 ? 0 : this.BUBBLE_SPACING / 2
-    let closestCol = Math.round((shooting.x - offset - this.BUBBLE_SPACING) / this.BUBBLE_SPACING)
-    const maxCols = closestRow % 2 === 0 ? this.COLS : this.COLS - 1
-    closestCol = Math.max(0, Math.min(maxCols - 1, closestCol))
+  setBindings(bindings: InputBindings) {
+    this.input.setBindings(bindings)
+  }
 
-    // Ensure row array exists
-    if (!this.bubbles[closestRow]) {
-      this.bubbles[closestRow] = []
-    }
+  get seed(): number {
+    return this.engine.seed
+  }
 
-    // Handle power-ups
-    if (shooting.color === 'bomb') {
-      this.explodeBomb(closestRow, closestCol)
-      return
-    }
+  // Lets menus outside the canvas drive the game
+  send(command: GameCommand) {
+    this.dispatch(command)
+  }
 
-    // Place bubble
-    this.bubbles[closestRow][closestCol] = {
-      x: this.getBubbleX(closestRow, closestCol),
-      y: this.getBubbleY(closestRow),
-      color: shooting.color,
-      row: closestRow,
-      col: closestCol,
-      radius: this.BUBBLE_RADIUS
+  on(listener: (event: GameEvent) => void): () => void {
+    this.listeners.push(listener)
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener)
     }
+  }
 
-    // Check for matches
-    const matches = this.findMatches(closestRow, closestCol)
-    if (matches.length >= 3) {
-      this.popBubbles(matches)
-      this.dropFloatingBubbles()
-      this.combo++
-      this.maxCombo = Math.max(this.maxCombo, this.combo)
-      this.score += matches.length * 10 * this.combo
-    } else {
-      this.combo = 0
-    }
+  // The current run, or the last one once it's back at the menu, ready to save
+  get replay(): ReplayFile | null {
+    return this.recorder?.finish() ?? null
   }
 
-  private explodeBomb(row: number, col: number) {
-    const radius = 2
-    const toExplode: Bubble[] = []
+  // Playback controls, when playing a replay
+  get playback(): ReplayPlayer | null {
+    return this.player
+  }
 
-    for (let r = Math.max(0, row - radius); r <= Math.min(this.bubbles.length - 1, row + radius); r++) {
-      for (let c = 0; c < this.bubbles[r].length; c++) {
-        const bubble = this.bubbles[r][c]
-        if (bubble) {
-          const dr = r - row
-          const dc = c - col
-          if (Math.sqrt(dr * dr + dc * dc) <= radius) {
-            toExplode.push(bubble)
-          }
-        }
-      }
+  status(): GameStatus {
+    const engine = this.engine
+    return {
+      state: engine.gameState,
+      level: engine.level,
+      score: engine.score,
+      lives: engine.lives,
+      combo: engine.combo,
+      currentBubble: engine.currentBubble,
+      nextBubble: engine.nextBubble,
+      swapsRemaining: engine.swapsRemaining,
+      timeRemaining: engine.timeRemaining,
+      pushRemaining: engine.endless ? engine.pushRemaining : null,
+      missesRemaining: engine.endless ? engine.missesRemaining : null,
+      shotsRemaining: engine.shotsRemaining,
+      objectives: engine.objectives()
     }
-
-    this.popBubbles(toExplode)
-    this.dropFloatingBubbles()
-    this.score += toExplode.length * 20
   }
 
-  private findMatches(row: number, col: number): Bubble[] {
-    const bubble = this.bubbles[row]?.[col]
-    if (!bubble) return []
-    const specialColors: BubbleColor[] = ['rainbow', 'bomb', 'freeze']
-    if (specialColors.includes(bubble.color)) return []
-
-    const matches: Bubble[] = []
-    const visited = new Set<string>()
-    const queue: [number, number][] = [[row, col]]
-
-    while (queue.length > 0) {
-      const [r, c] = queue.shift()!
-      const key = `${r},${c}`
-      if (visited.has(key)) continue
-      visited.add(key)
-
-      const current = this.bubbles[r]?.[c]
-      if (!current || current.isPopping) continue
+  // Every command goes through here so the recording matches what the engine saw
+  private dispatch(command: GameCommand) {
+    if (this.player) return
+    if (this.engine.gameState === 'menu' && STARTS_RUN.includes(command.type)) this.startRecording()
+    this.recorder?.record(command)
+    this.engine.send(command)
+  }
 
-      const isRainbow = (color: BubbleColor) => color === 'rainbow'
-      const colorsMatch = current.color === bubble.color || isRainbow(current.color) || isRainbow(bubble.color)
-      if (!colorsMatch) continue
+  // Each run is played on a fresh engine, so its recording starts at tick 0 and holds that run alone
+  private startRecording() {
+    this.watchEngine(new GameEngine({ seed: this.engine.seed, width: this.width, height: this.height, levels: this.levels }))
+    this.recorder = new ReplayRecorder(this.engine, { levels: this.levels })
+  }
 
-      matches.push(current)
+  start() {
+    this.running = true
+    this.lastFrameTime = null
+    this.input.attach()
+    document.addEventListener('visibilitychange', this.handleVisibilityChange)
+    // Covers window resizes, orientation changes and page layout changes alike
+    this.resizeObserver = new ResizeObserver(this.resize)
+    this.resizeObserver.observe(this.canvas)
+    this.reducedMotion = window.matchMedia('(prefers-reduced-motion: reduce)')
+    this.reducedMotion.addEventListener('change', this.handleMotionChange)
+    this.handleMotionChange()
+    this.animationId = requestAnimationFrame(this.gameLoop)
+  }
 
-      // Check neighbors
-      const neighbors = this.getNeighbors(r, c)
-      for (const [nr, nc] of neighbors) {
-        if (!visited.has(`${nr},${nc}`)) {
-          queue.push([nr, nc])
-        }
-      }
+  stop() {
+    this.running = false
+    this.input.detach()
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange)
+    this.resizeObserver?.disconnect()
+    this.resizeObserver = null
+    this.reducedMotion?.removeEventListener('change', this.handleMotionChange)
+    this.reducedMotion = null
+    if (this.animationId) {
+      cancelAnimationFrame(this.animationId)
     }
-
-    return matches
   }
 
-  private getNeighbors(row: number, col: number): [number, number][] {
-    const neighbors: [number, number][] = []
-    const isEvenRow = row % 2 === 0
-
-    // Above
-    if (row > 0) {
-      neighbors.push([row - 1, col])
-      if (isEvenRow && col > 0) {
-        neighbors.push([row - 1, col - 1])
-      } else if (!isEvenRow) {
-        neighbors.push([row - 1, col + 1])
-      }
-    }
+  private gameLoop = (time: number) => {
+    if (!this.running) return
 
-    // Below
-    if (row < this.bubbles.length - 1) {
-      neighbors.push([row + 1, col])
-      if (isEvenRow && col > 0) {
-        neighbors.push([row + 1, col - 1])
-      } else if (!isEvenRow) {
-        neighbors.push([row + 1, col + 1])
-      }
+    const dt = this.lastFrameTime === null ? 0 : (time - this.lastFrameTime) / 1000
+    this.lastFrameTime = time
+    // Dragging the window to a screen with a different density doesn't resize anything
+    if (window.devicePixelRatio !== this.pixelRatio) this.resize()
+    if (this.player) {
+      this.player.advance(dt)
+      // Seeking backwards swaps in a fresh engine
+      if (this.player.engine !== this.engine) this.watchEngine(this.player.engine)
+    } else {
+      this.applyHeldInput(dt)
+      this.engine.update(dt)
+      this.recorder?.checkpoint()
     }
+    this.updatePopups(dt)
+    this.effects.update(dt)
+    this.render()
 
-    // Left and right
-    if (col > 0) neighbors.push([row, col - 1])
-    if (col < this.bubbles[row].length - 1) neighbors.push([row, col + 1])
-
-    return neighbors
-  }
-
-  private popBubbles(bubbles: Bubble[]) {
-    for (const bubble of bubbles) {
-      bubble.isPopping = true
-      bubble.popProgress = 0
-    }
+    this.animationId = requestAnimationFrame(this.gameLoop)
   }
 
-  private dropFloatingBubbles() {
-    const connected = new Set<string>()
-    const queue: [number, number][] = []
-
-    // Start from top row
-    for (let col = 0; col < this.bubbles[0]?.length || 0; col++) {
-      if (this.bubbles[0][col] && !this.bubbles[0][col]!.isPopping) {
-        queue.push([0, col])
+  private watchEngine(engine: GameEngine) {
+    this.unwatchEngine?.()
+    this.engine = engine
+    this.popups = []
+    this.effects.clear()
+    this.unwatchEngine = engine.on(event => {
+      if (event.type === 'score') this.addPopup(event.event)
+      if (event.type === 'bubblesPopped') this.effects.burst(event.bubbles)
+      if (event.type === 'bubblesDropped') this.effects.drop(event.bubbles)
+      if (event.type === 'levelIntro') this.effects.clear()
+      if (event.type === 'lifeLost') {
+        this.popups.push({ text: LOSE_MESSAGES[event.reason], x: this.width / 2, y: this.height / 2, age: 0, color: '#FF4757', size: 36 })
       }
-    }
-
-    // BFS to find connected bubbles
-    while (queue.length > 0) {
-      const [r, c] = queue.shift()!
-      const key = `${r},${c}`
-      if (connected.has(key)) continue
-      connected.add(key)
-
-      const neighbors = this.getNeighbors(r, c)
-      for (const [nr, nc] of neighbors) {
-        if (!connected.has(`${nr},${nc}`) && this.bubbles[nr]?.[nc] && !this.bubbles[nr][nc]!.isPopping) {
-          queue.push([nr, nc])
-        }
+      if (event.type === 'shotUndone') {
+        this.popups = []
+        this.effects.clear()
       }
-    }
-
-    // Drop unconnected bubbles
-    let droppedCount = 0
-    for (let row = 0; row < this.bubbles.length; row++) {
-      for (let col = 0; col < this.bubbles[row].length; col++) {
-        const bubble = this.bubbles[row][col]
-        if (bubble && !bubble.isPopping && !connected.has(`${row},${col}`)) {
-          bubble.isPopping = true
-          bubble.popProgress = 0
-          droppedCount++
-        }
+      if (event.type === 'difficultyUp') {
+        this.popups.push({ text: `Level ${event.level}!`, x: this.width / 2, y: this.height / 2, age: 0, color: '#FFD700', size: 36 })
+      }
+      for (const listener of this.listeners) {
+        listener(event)
       }
+    })
+  }
+
+  private addPopup(event: ScoreEvent) {
+    const big = event.kind === 'clear' || event.kind === 'timeBonus'
+    let text = `+${event.points}`
+    if (event.kind === 'combo') text = `Combo +${event.points}`
+    if (event.kind === 'bankShot') text = `Bank shot +${event.points}`
+    if (event.kind === 'avalanche') text = `Avalanche +${event.points}`
+    if (event.kind === 'clear') text = `Board clear +${event.points}`
+    if (event.kind === 'timeBonus') text = `Time bonus +${event.points}`
+
+    // Bonuses land on the same spot as the match they belong to, so stack them upwards
+    const stacked = this.popups.filter(popup => popup.age === 0 && Math.abs(popup.x - event.x) < 1 && Math.abs(popup.y - event.y) < 30).length
+    this.popups.push({
+      text,
+      x: event.x,
+      y: event.y - stacked * 24,
+      age: 0,
+      color: POPUP_COLORS[event.kind],
+      size: big ? 32 : 20
+    })
+
+    // Skill moves get their name in large letters above the points
+    if (event.callout) {
+      this.popups.push({
+        text: event.callout,
+        x: Math.min(this.width - 120, Math.max(120, event.x)),
+        y: event.y - stacked * 24 - 36,
+        age: 0,
+        color: POPUP_COLORS[event.kind],
+        size: 36
+      })
     }
+  }
 
-    if (droppedCount > 0) {
-      this.score += droppedCount * 15 * (this.combo + 1)
+  private updatePopups(dt: number) {
+    for (const popup of this.popups) {
+      popup.age += dt
     }
+    this.popups = this.popups.filter(popup => popup.age < this.POPUP_DURATION)
   }
 
   private render() {
+    const { scale, offsetX, offsetY } = this.view
+    const ratio = this.pixelRatio
+    this.ctx.setTransform(1, 0, 0, 1, 0, 0)
+    this.ctx.clearRect(0, 0, this.canvas.width, this.canvas.height)
+    this.ctx.setTransform(ratio * scale, 0, 0, ratio * scale, ratio * offsetX, ratio * offsetY)
+
     // Clear canvas
     this.ctx.fillStyle = '#2d3561'
     this.ctx.fillRect(0, 0, this.width, this.height)
+    this.ctx.strokeStyle = '#ffffff'
+    this.ctx.lineWidth = 4
+    this.ctx.beginPath()
+    this.ctx.roundRect(-2, -2, this.width + 4, this.height + 4, 10)
+    this.ctx.stroke()
 
-    if (this.gameState === 'menu') {
-      this.renderMenu()
-      return
-    }
-
-    if (this.gameState === 'won' || this.gameState === 'lost') {
-      this.renderGameOver()
-      return
-    }
+    // Menus are drawn by the page on top of the canvas; the board stays visible behind the rest
+    if (this.engine.gameState === 'menu') return
 
-    // Render grid bubbles
-    for (let row = 0; row < this.bubbles.length; row++) {
-      for (let col = 0; col < this.bubbles[row].length; col++) {
-        const bubble = this.bubbles[row][col]
+    // Render grid bubbles, clipped so pushed endless rows slide in from behind the frame
+    this.ctx.save()
+    this.ctx.beginPath()
+    this.ctx.rect(0, 0, this.width, this.height)
+    this.ctx.clip()
+    for (let row = 0; row < this.engine.bubbles.length; row++) {
+      for (let col = 0; col < this.engine.bubbles[row].length; col++) {
+        const bubble = this.engine.bubbles[row][col]
         if (bubble) {
           this.renderBubble(bubble)
         }
       }
     }
+    this.ctx.restore()
+
+    if (this.engine.freezeRemaining > 0) {
+      this.renderFrost()
+    }
 
     // Render shooting bubble
-    if (this.shootingBubble) {
+    if (this.engine.shootingBubble) {
       this.renderBubble({
-        x: this.shootingBubble.x,
-        y: this.shootingBubble.y,
-        color: this.shootingBubble.color,
-        radius: this.shootingBubble.radius,
+        x: this.engine.shootingBubble.x,
+        y: this.engine.shootingBubble.y,
+        color: this.engine.shootingBubble.color,
+        radius: this.engine.shootingBubble.radius,
         row: 0,
         col: 0
       })
     }
 
     // Render aim line
-    if (!this.shootingBubble) {
+    if (!this.engine.shootingBubble) {
       this.renderAimLine()
     }
 
     // Render shooter
     this.renderShooter()
 
+    this.effects.render(this.ctx)
+    this.renderPopups()
+
     // Render UI
     this.renderUI()
   }
 
-  private renderBubble(bubble: Bubble) {
-    const scale = bubble.isPopping ? 1 - (bubble.popProgress || 0) : 1
-    const alpha = bubble.isPopping ? 1 - (bubble.popProgress || 0) : 1
-
+  private renderPopups() {
     this.ctx.save()
-    this.ctx.globalAlpha = alpha
-    this.ctx.translate(bubble.x, bubble.y)
-    this.ctx.scale(scale, scale)
-
-    // Main bubble
-    const gradient = this.ctx.createRadialGradient(-5, -5, 0, 0, 0, bubble.radius)
-    const color = this.COLOR_MAP[bubble.color]
-
-    if (bubble.color === 'rainbow') {
-      gradient.addColorStop(0, '#ffffff')
-      gradient.addColorStop(0.3, '#ff00ff')
-      gradient.addColorStop(0.6, '#00ffff')
-      gradient.addColorStop(1, '#ffff00')
-    } else {
-      gradient.addColorStop(0, this.lightenColor(color, 40))
-      gradient.addColorStop(1, color)
-    }
-
-    this.ctx.fillStyle = gradient
-    this.ctx.beginPath()
-    this.ctx.arc(0, 0, bubble.radius, 0, Math.PI * 2)
-    this.ctx.fill()
-
-    // Shine
-    this.ctx.fillStyle = 'rgba(255, 255, 255, 0.4)'
-    this.ctx.beginPath()
-    this.ctx.arc(-7, -7, 6, 0, Math.PI * 2)
-    this.ctx.fill()
-
-    // Special icons
-    if (bubble.color === 'bomb') {
-      this.ctx.fillStyle = '#ffffff'
-      this.ctx.font = 'bold 20px Arial'
-      this.ctx.textAlign = 'center'
-      this.ctx.textBaseline = 'middle'
-      this.ctx.fillText('💣', 0, 0)
-    } else if (bubble.color === 'freeze') {
-      this.ctx.fillStyle = '#ffffff'
-      this.ctx.font = 'bold 20px Arial'
-      this.ctx.textAlign = 'center'
-      this.ctx.textBaseline = 'middle'
-      this.ctx.fillText('❄', 0, 0)
+    this.ctx.textAlign = 'center'
+    this.ctx.textBaseline = 'middle'
+    this.ctx.lineWidth = 4
+    this.ctx.strokeStyle = 'rgba(0, 0, 0, 0.5)'
+    for (const popup of this.popups) {
+      const t = popup.age / this.POPUP_DURATION
+      const rise = this.prefersReducedMotion ? 0 : this.POPUP_RISE
+      const y = popup.y - rise * (1 - (1 - t) * (1 - t))
+      this.ctx.globalAlpha = t < 0.7 ? 1 : (1 - t) / 0.3
+      this.ctx.font = `bold ${popup.size}px Arial`
+      this.ctx.strokeText(popup.text, popup.x, y)
+      this.ctx.fillStyle = popup.color
+      this.ctx.fillText(popup.text, popup.x, y)
     }
-
     this.ctx.restore()
   }
 
-  private lightenColor(color: string, percent: number): string {
-    const num = parseInt(color.replace('#', ''), 16)
-    const r = Math.min(255, ((num >> 16) & 0xff) + percent)
-    const g = Math.min(255, ((num >> 8) & 0xff) + percent)
-    const b = Math.min(255, (num & 0xff) + percent)
-    return `#${((r << 16) | (g << 8) | b).toString(16).padStart(6, '0')}`
+  private renderBubble(bubble: Bubble) {
+    drawBubble(this.ctx, bubble, this.bubbleStyle)
   }
 
   private renderAimLine() {
+    if (this.aimAssist.enabled) {
+      this.renderTrajectory()
+      return
+    }
+
     this.ctx.strokeStyle = 'rgba(255, 255, 255, 0.5)'
     this.ctx.lineWidth = 2
-    this.ctx.setLineDash([5, 5])
+    this.ctx.setLineDash(this.aimDash())
     this.ctx.beginPath()
-    this.ctx.moveTo(this.shooterX, this.shooterY - 30)
+    this.ctx.moveTo(this.engine.shooterX, this.engine.shooterY - 30)
     this.ctx.lineTo(
-      this.shooterX + Math.cos(this.aimAngle) * 300,
-      this.shooterY - 30 + Math.sin(this.aimAngle) * 300
+      this.engine.shooterX + Math.cos(this.engine.aimAngle) * 300,
+      this.engine.shooterY - 30 + Math.sin(this.engine.aimAngle) * 300
     )
     this.ctx.stroke()
     this.ctx.setLineDash([])
   }
 
+  // A dashed line normally, and a solid one for reduced motion
+  private aimDash(): number[] {
+    return this.prefersReducedMotion ? [] : [5, 5]
+  }
+
+  private renderTrajectory() {
+    const prediction = this.engine.predictShot()
+    const { path, landing } = prediction
+    const segments = Math.min(path.length - 1, this.aimAssist.maxBounces + 1)
+
+    this.ctx.save()
+    this.ctx.strokeStyle = 'rgba(255, 255, 255, 0.6)'
+    this.ctx.lineWidth = 2
+    this.ctx.setLineDash(this.aimDash())
+    this.ctx.beginPath()
+    this.ctx.moveTo(path[0].x, path[0].y)
+    for (let i = 1; i <= segments; i++) {
+      this.ctx.lineTo(path[i].x, path[i].y)
+    }
+    this.ctx.stroke()
+    this.ctx.setLineDash([])
+
+    // Bounce markers
+    this.ctx.fillStyle = 'rgba(255, 255, 255, 0.8)'
+    for (let i = 1; i < segments; i++) {
+      this.ctx.beginPath()
+      this.ctx.arc(path[i].x, path[i].y, 4, 0, Math.PI * 2)
+      this.ctx.fill()
+    }
+
+    // Ghost bubble in the cell the shot will snap to
+    if (this.aimAssist.showGhost && landing && prediction.bounces <= this.aimAssist.maxBounces && this.engine.currentBubble) {
+      this.ctx.globalAlpha = 0.35
+      this.renderBubble({
+        x: landing.x,
+        y: landing.y,
+        color: this.engine.currentBubble,
+        radius: this.engine.BUBBLE_RADIUS,
+        row: landing.row,
+        col: landing.col
+      })
+      this.ctx.globalAlpha = 1
+      this.ctx.strokeStyle = 'rgba(255, 255, 255, 0.8)'
+      this.ctx.setLineDash([4, 4])
+      this.ctx.beginPath()
+      this.ctx.arc(landing.x, landing.y, this.engine.BUBBLE_RADIUS, 0, Math.PI * 2)
+      this.ctx.stroke()
+    }
+    this.ctx.restore()
+  }
+
   private renderShooter() {
     // Base
     this.ctx.fillStyle = '#34495e'
     this.ctx.beginPath()
-    this.ctx.arc(this.shooterX, this.shooterY, 35, 0, Math.PI * 2)
+    this.ctx.arc(this.engine.shooterX, this.engine.shooterY, 35, 0, Math.PI * 2)
     this.ctx.fill()
 
-    // Current bubble
-    if (this.currentBubble) {
-      this.renderBubble({
-        x: this.shooterX,
-        y: this.shooterY - 30,
-        color: this.currentBubble,
-        radius: this.BUBBLE_RADIUS,
-        row: 0,
-        col: 0
-      })
-    }
+    const loaded = { x: this.engine.shooterX, y: this.engine.shooterY - 30, radius: this.engine.BUBBLE_RADIUS }
+    const preview = { x: this.width - 45, y: this.height - 45, radius: this.engine.BUBBLE_RADIUS * 0.8 }
 
     // Next bubble preview
-    if (this.nextBubble) {
+    if (this.engine.nextBubble) {
       this.ctx.fillStyle = 'rgba(0, 0, 0, 0.3)'
       this.ctx.fillRect(this.width - 80, this.height - 80, 70, 70)
       this.ctx.fillStyle = '#ffffff'
       this.ctx.font = '12px Arial'
+      this.ctx.textAlign = 'left'
       this.ctx.fillText('Next:', this.width - 75, this.height - 85)
-      this.renderBubble({
-        x: this.width - 45,
-        y: this.height - 45,
-        color: this.nextBubble,
-        radius: this.BUBBLE_RADIUS * 0.8,
-        row: 0,
-        col: 0
-      })
+      this.renderSwaps()
     }
+
+    // While swapping, the two bubbles travel between the shooter and the preview along opposite arcs
+    const t = this.prefersReducedMotion ? 1 : this.engine.swapProgress
+    const ease = t * t * (3 - 2 * t)
+    const lerp = (from: typeof loaded, to: typeof loaded, lift: number) => ({
+      x: from.x + (to.x - from.x) * ease,
+      y: from.y + (to.y - from.y) * ease + Math.sin(ease * Math.PI) * lift,
+      radius: from.radius + (to.radius - from.radius) * ease
+    })
+
+    if (this.engine.nextBubble) {
+      const position = t < 1 ? lerp(loaded, preview, 40) : preview
+      this.renderBubble({ ...position, color: this.engine.nextBubble, row: 0, col: 0 })
+    }
+    if (this.engine.currentBubble) {
+      const position = t < 1 ? lerp(preview, loaded, -40) : loaded
+      this.renderBubble({ ...position, color: this.engine.currentBubble, row: 0, col: 0 })
+    }
+  }
+
+  private renderSwaps() {
+    const remaining = this.engine.swapsRemaining
+    if (remaining === null) return
+
+    this.ctx.save()
+    this.ctx.fillStyle = remaining === 0 ? 'rgba(255, 255, 255, 0.4)' : '#ffffff'
+    this.ctx.font = '12px Arial'
+    this.ctx.textAlign = 'right'
+    this.ctx.textBaseline = 'alphabetic'
+    this.ctx.fillText(`⇄ Swaps: ${remaining}`, this.width - 10, this.height - 100)
+    this.ctx.restore()
   }
 
   private renderUI() {
+    if (this.view.portrait) {
+      this.renderPortraitHud()
+      return
+    }
+
     this.ctx.fillStyle = '#ffffff'
     this.ctx.font = 'bold 20px Arial'
     this.ctx.textAlign = 'left'
-    this.ctx.fillText(`Level: ${this.level}`, 20, 30)
-    this.ctx.fillText(`Score: ${this.score}`, 20, 60)
-    this.ctx.fillText(`Lives: ${'❤'.repeat(this.lives)}`, 20, 90)
-    if (this.combo > 1) {
+    this.ctx.fillText(`Level: ${this.engine.level}`, 20, 30)
+    this.ctx.fillText(`Score: ${this.engine.score}`, 20, 60)
+    this.ctx.fillText(this.engine.endless ? `Next rows: ${this.pushLabel()}` : `Lives: ${'❤'.repeat(this.engine.lives)}`, 20, 90)
+    if (this.engine.combo > 1) {
       this.ctx.fillStyle = '#FFD700'
-      this.ctx.fillText(`Combo x${this.combo}!`, 20, 120)
+      this.ctx.fillText(`Combo x${this.engine.combo}!`, 20, 120)
     }
+    this.renderTimer(32, 24)
+    this.renderFreezeTimer(this.width / 2, this.engine.timeRemaining === null ? 32 : 60, 20)
+    this.renderSeed(this.width - 10, 20, 'right')
+    this.renderObjectives(44, 16)
+    this.renderPuzzleControls()
   }
 
-  private renderMenu() {
+  // Two rows above the board, in bigger type since the board is scaled down a lot on phones
+  private renderPortraitHud() {
+    const top = -this.PORTRAIT_HUD_HEIGHT
+    const firstRow = top + 40
+    const secondRow = top + 84
+
+    this.ctx.save()
+    this.ctx.fillStyle = 'rgba(0, 0, 0, 0.3)'
+    this.ctx.fillRect(0, top, this.width, this.PORTRAIT_HUD_HEIGHT - 6)
     this.ctx.fillStyle = '#ffffff'
-    this.ctx.font = 'bold 60px Arial'
+    this.ctx.font = 'bold 32px Arial'
+    this.ctx.textBaseline = 'alphabetic'
+    this.ctx.textAlign = 'left'
+    this.ctx.fillText(`Lv ${this.engine.level}`, 20, firstRow)
     this.ctx.textAlign = 'center'
-    this.ctx.textBaseline = 'middle'
-    this.ctx.fillText('Color Burst', this.width / 2, this.height / 2 - 100)
+    this.ctx.fillText(`${this.engine.score}`, this.width / 2, firstRow)
+    this.ctx.textAlign = 'right'
+    this.ctx.fillText(this.engine.endless ? `⬇ ${this.pushLabel()}` : '❤'.repeat(this.engine.lives), this.width - 20, firstRow)
+    if (this.engine.combo > 1) {
+      this.ctx.textAlign = 'left'
+      this.ctx.fillStyle = '#FFD700'
+      this.ctx.fillText(`x${this.engine.combo}!`, 20, secondRow)
+    }
+    this.ctx.restore()
+
+    this.renderTimer(secondRow, 32)
+    this.renderFreezeTimer(this.width - 130, secondRow, 28)
+    this.renderSeed(10, 20, 'left')
+    this.renderObjectives(24, 22)
+    this.renderPuzzleControls()
+  }
+
+  // Levels with the usual clear-the-board objective and no shot limit don't need a reminder
+  private renderObjectives(y: number, size: number) {
+    const config = this.engine.config
+    if (!config.objectives && this.engine.shotsRemaining === null) return
 
-    this.ctx.font = 'bold 30px Arial'
-    this.ctx.fillText('Bubble Shooter', this.width / 2, this.height / 2 - 40)
+    const lines = this.engine.objectives().map(progress => ({
+      text: `${progress.done ? '✓' : '○'} ${progress.label}`,
+      color: progress.done ? '#7BED9F' : '#ffffff'
+    }))
+    if (this.engine.shotsRemaining !== null) {
+      lines.push({ text: `Shots left: ${this.engine.shotsRemaining}`, color: this.engine.shotsRemaining <= 1 ? '#FF4757' : '#ffffff' })
+    }
 
-    this.ctx.font = '20px Arial'
-    this.ctx.fillText('Click to Start', this.width / 2, this.height / 2 + 40)
-    this.ctx.fillText('20 Levels of Bubble-Popping Fun!', this.width / 2, this.height / 2 + 80)
+    this.ctx.save()
+    this.ctx.font = `bold ${size}px Arial`
+    this.ctx.textAlign = 'right'
+    this.ctx.textBaseline = 'top'
+    lines.forEach((line, i) => {
+      this.ctx.fillStyle = line.color
+      this.ctx.fillText(line.text, this.width - 10, y + i * (size + 6))
+    })
+    this.ctx.restore()
   }
 
-  private renderGameOver() {
-    this.ctx.fillStyle = 'rgba(0, 0, 0, 0.7)'
-    this.ctx.fillRect(0, 0, this.width, this.height)
+  private renderPuzzleControls() {
+    if (this.engine.mode !== 'puzzle') return
 
+    this.ctx.save()
+    this.ctx.globalAlpha = this.engine.canUndo ? 1 : 0.4
+    this.ctx.fillStyle = 'rgba(0, 0, 0, 0.3)'
+    this.ctx.beginPath()
+    this.ctx.roundRect(10, this.height - 50, 90, 40, 8)
+    this.ctx.fill()
     this.ctx.fillStyle = '#ffffff'
-    this.ctx.font = 'bold 50px Arial'
+    this.ctx.font = 'bold 18px Arial'
     this.ctx.textAlign = 'center'
     this.ctx.textBaseline = 'middle'
+    this.ctx.fillText('↶ Undo', 55, this.height - 30)
+    this.ctx.restore()
+  }
 
-    if (this.gameState === 'won') {
-      this.ctx.fillStyle = '#2ED573'
-      this.ctx.fillText('🎉 YOU WON! 🎉', this.width / 2, this.height / 2 - 80)
-      this.ctx.fillStyle = '#ffffff'
-      this.ctx.font = '30px Arial'
-      this.ctx.fillText('All 20 Levels Complete!', this.width / 2, this.height / 2 - 20)
-    } else {
-      this.ctx.fillStyle = '#FF4757'
-      this.ctx.fillText('Game Over', this.width / 2, this.height / 2 - 60)
+  // Endless mode: time and misses left before the next rows come in, whichever runs out first
+  private pushLabel(): string {
+    return `${Math.ceil(this.engine.pushRemaining)}s / ${this.engine.missesRemaining} miss${this.engine.missesRemaining === 1 ? '' : 'es'}`
+  }
+
+  private renderFreezeTimer(x: number, y: number, size: number) {
+    if (this.engine.freezeRemaining <= 0) return
+
+    this.ctx.save()
+    this.ctx.fillStyle = '#A8D8FF'
+    this.ctx.font = `bold ${size}px Arial`
+    this.ctx.textAlign = 'center'
+    this.ctx.textBaseline = 'alphabetic'
+    this.ctx.fillText(`❄ Frozen ${this.engine.freezeRemaining.toFixed(1)}s`, x, y)
+    this.ctx.restore()
+  }
+
+  private renderFrost() {
+    // Fade the frost out over the last second of the freeze
+    const strength = Math.min(1, this.engine.freezeRemaining)
+
+    this.ctx.save()
+    this.ctx.globalAlpha = strength
+    this.ctx.fillStyle = 'rgba(168, 216, 255, 0.12)'
+    this.ctx.fillRect(0, 0, this.width, this.height)
+
+    const frost = this.ctx.createRadialGradient(
+      this.width / 2, this.height / 2, Math.min(this.width, this.height) * 0.35,
+      this.width / 2, this.height / 2, Math.max(this.width, this.height) * 0.75
+    )
+    frost.addColorStop(0, 'rgba(255, 255, 255, 0)')
+    frost.addColorStop(1, 'rgba(220, 240, 255, 0.6)')
+    this.ctx.fillStyle = frost
+    this.ctx.fillRect(0, 0, this.width, this.height)
+
+    // Icicles along the ceiling
+    this.ctx.fillStyle = 'rgba(230, 245, 255, 0.8)'
+    for (let x = 10; x < this.width; x += 36) {
+      const length = 12 + ((x * 7) % 18)
+      this.ctx.beginPath()
+      this.ctx.moveTo(x - 6, 0)
+      this.ctx.lineTo(x + 6, 0)
+      this.ctx.lineTo(x, length)
+      this.ctx.closePath()
+      this.ctx.fill()
     }
+    this.ctx.restore()
+  }
 
-    this.ctx.fillStyle = '#ffffff'
-    this.ctx.font = 'bold 25px Arial'
-    this.ctx.fillText(`Final Score: ${this.score}`, this.width / 2, this.height / 2 + 40)
-    this.ctx.fillText(`Max Combo: x${this.maxCombo}`, this.width / 2, this.height / 2 + 80)
+  private renderTimer(y: number, size: number) {
+    const remaining = this.engine.timeRemaining
+    if (remaining === null) return
 
-    this.ctx.font = '20px Arial'
-    this.ctx.fillText('Click to Play Again', this.width / 2, this.height / 2 + 140)
+    const seconds = Math.ceil(remaining)
+    const label = `⏱ ${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`
+
+    this.ctx.save()
+    this.ctx.font = `bold ${size}px Arial`
+    this.ctx.textAlign = 'center'
+    this.ctx.textBaseline = 'alphabetic'
+    if (this.engine.timeWarning && !this.prefersReducedMotion) {
+      // Pulse once per second while the clock is running out
+      const pulse = 1 + 0.15 * Math.max(0, Math.sin((remaining % 1) * Math.PI))
+      this.ctx.translate(this.width / 2, y)
+      this.ctx.scale(pulse, pulse)
+      this.ctx.fillStyle = '#FF4757'
+      this.ctx.fillText(label, 0, 0)
+    } else {
+      this.ctx.fillStyle = this.engine.timeWarning ? '#FF4757' : '#ffffff'
+      this.ctx.fillText(label, this.width / 2, y)
+    }
+    this.ctx.restore()
+  }
+
+  private renderSeed(x: number, y: number, align: CanvasTextAlign) {
+    this.ctx.save()
+    this.ctx.fillStyle = 'rgba(255, 255, 255, 0.6)'
+    this.ctx.font = '12px Arial'
+    this.ctx.textAlign = align
+    this.ctx.textBaseline = 'alphabetic'
+    this.ctx.fillText(`Seed: ${this.engine.seed}`, x, y)
+    this.ctx.restore()
   }
 }
@@ -0,0 +1,605 @@
+import { describe, expect, it } from 'vitest'
+import { ENDLESS_TABLE, EndlessTable, endlessDifficulty } from './endless'
+import GameEngine from './GameEngine'
+import type { GameCommand, GameEvent, LevelConfig } from './types'
+
+// Commands keyed by the tick they should be applied on
+type Script = { tick: number; command: GameCommand }[]
+
+// Starts level 1, skips the intro and fires a spread of shots, swapping now and then
+function campaignScript(): Script {
+  const script: Script = [
+    { tick: 5, command: { type: 'confirm' } },
+    { tick: 20, command: { type: 'confirm' } }
+  ]
+  for (let shot = 0; shot < 24; shot++) {
+    const tick = 40 + shot * 50
+    script.push({ tick, command: { type: 'aim', angle: -Math.PI / 2 + ((shot % 7) - 3) * 0.3 } })
+    if (shot % 5 === 2) script.push({ tick: tick + 1, command: { type: 'swap' } })
+    script.push({ tick: tick + 2, command: { type: 'fire' } })
+  }
+  return script
+}
+
+// Runs the script on a fresh engine with frames of the given lengths, repeated, and returns the
+// state hash after every frame keyed by tick. A frame that would run past the next command is cut
+// short at that tick, the way a real frame would end before the input arrives.
+function run(seed: number, script: Script, frames: number[], until: number): Map<number, number> {
+  const engine = new GameEngine({ seed })
+  const hashes = new Map([[engine.tick, engine.stateHash()]])
+  let next = 0
+  let frame = 0
+
+  while (engine.tick < until) {
+    while (next < script.length && script[next].tick <= engine.tick) {
+      expect(engine.tick).toBe(script[next].tick)
+      engine.send(script[next].command)
+      next++
+    }
+    let dt = frames[frame++ % frames.length]
+    if (next < script.length) {
+      dt = Math.min(dt, (script[next].tick - engine.tick) * GameEngine.FIXED_DT)
+    }
+    engine.update(dt)
+    hashes.set(engine.tick, engine.stateHash())
+  }
+  return hashes
+}
+
+describe('fixed timestep', () => {
+  const script = campaignScript()
+  const until = 1400
+  const reference = run(42, script, [1 / 60], until)
+
+  it('plays the script through on the reference frame rate', () => {
+    const engine = new GameEngine({ seed: 42 })
+    for (const { tick, command } of script) {
+      while (engine.tick < tick) engine.step()
+      engine.send(command)
+    }
+    while (engine.tick < until) engine.step()
+    expect(engine.gameState).toBe('playing')
+    expect(engine.score).toBeGreaterThan(0)
+    expect(reference.get(until)).toBe(engine.stateHash())
+  })
+
+  it.each([
+    ['144 Hz', [1 / 144]],
+    ['30 Hz', [1 / 30]],
+    ['uneven frames', [0.004, 0.031, 1 / 60, 0.009, 0.05, 0.001, 0.022]],
+    ['stalls past the frame cap', [1 / 60, 1 / 60, 0.4, 0.003]]
+  ])('matches the reference hashes at %s', (_, frames) => {
+    const hashes = run(42, script, frames, until)
+    expect(hashes.size).toBeGreaterThan(0)
+    for (const [tick, hash] of hashes) {
+      if (tick <= until) expect(hash, `tick ${tick}`).toBe(reference.get(tick))
+    }
+  })
+
+  it('plays a different game with a different seed', () => {
+    expect(run(43, script, [1 / 60], until).get(until)).not.toBe(reference.get(until))
+  })
+
+  it('caps a long frame instead of fast-forwarding', () => {
+    const engine = new GameEngine({ seed: 42 })
+    engine.update(5)
+    expect(engine.tick).toBe(Math.floor(GameEngine.MAX_FRAME_TIME / GameEngine.FIXED_DT))
+  })
+})
+
+// Two reds a straight shot pops, and a green off to the side that keeps the board from clearing
+const PAIR = 'G . . . . . . . R R . . . . .'
+
+function puzzle(overrides: Partial<LevelConfig>): LevelConfig {
+  return {
+    colors: 4, speed: 1, hasPowerUps: false, hasObstacles: false,
+    loseConditions: ['outOfShots'],
+    patterns: [[PAIR]],
+    ...overrides
+  }
+}
+
+// Starts puzzle `index` (from 1) of `puzzles` and skips its intro
+function startPuzzle(puzzles: LevelConfig[], index: number = 1): GameEngine {
+  const engine = new GameEngine({ seed: 7, puzzles })
+  engine.send({ type: 'selectPuzzle', puzzle: index })
+  engine.step()
+  engine.send({ type: 'confirm' })
+  engine.step()
+  return engine
+}
+
+// Fires, straight up unless told otherwise, and runs until the shot has landed and everything it
+// popped is gone
+function shoot(engine: GameEngine, angle: number = -Math.PI / 2) {
+  engine.send({ type: 'aim', angle })
+  engine.send({ type: 'fire' })
+  engine.step()
+  while (engine.gameState === 'playing' && (engine.shootingBubble || engine.bubbles.some(row => row.some(bubble => bubble?.isPopping)))) {
+    engine.step()
+  }
+  engine.step()
+  // Steps only queue their events; this hands them out
+  engine.update(0)
+}
+
+function bubbleCount(engine: GameEngine): number {
+  return engine.bubbles.flat().filter(bubble => bubble && !bubble.isPopping).length
+}
+
+function collect(engine: GameEngine): GameEvent[] {
+  const events: GameEvent[] = []
+  engine.on(event => events.push(event))
+  return events
+}
+
+// The colors left on the board, bubble by bubble in reading order
+function colorsLeft(engine: GameEngine): string[] {
+  return engine.bubbles.flat().flatMap(bubble => (bubble && !bubble.isPopping ? [bubble.color] : []))
+}
+
+// Each score award as [kind, points], in the order they were made
+function awards(events: GameEvent[]): [string, number][] {
+  return events.flatMap(event => (event.type === 'score' ? [[event.event.kind, event.event.points] as [string, number]] : []))
+}
+
+describe('win and lose conditions', () => {
+  it('checks the objectives before running out of shots on the last shot', () => {
+    const engine = startPuzzle([puzzle({ shotSequence: ['red'], objectives: [{ type: 'score', points: 1 }] })])
+    shoot(engine)
+    expect(engine.shotsRemaining).toBe(0)
+    expect(engine.gameState).toBe('levelComplete')
+    expect(engine.lives).toBe(3)
+  })
+
+  it('costs a life and starts the level over when the shots run out', () => {
+    const engine = startPuzzle([
+      puzzle({ shotSequence: ['red'], objectives: [{ type: 'score', points: 1 }] }),
+      puzzle({ shotSequence: ['red', 'blue'], objectives: [{ type: 'clearBoard' }] })
+    ])
+    shoot(engine)
+    engine.send({ type: 'confirm' })
+    engine.step()
+    engine.send({ type: 'confirm' })
+    engine.step()
+    const levelStartScore = engine.score
+    const startingBubbles = bubbleCount(engine)
+    expect(levelStartScore).toBeGreaterThan(0)
+
+    const events = collect(engine)
+    shoot(engine)
+    expect(engine.score).toBeGreaterThan(levelStartScore)
+    shoot(engine)
+
+    expect(events).toContainEqual({ type: 'lifeLost', lives: 2, reason: 'outOfShots' })
+    expect(engine.lives).toBe(2)
+    expect(engine.gameState).toBe('playing')
+    expect(engine.level).toBe(2)
+    expect(engine.score).toBe(levelStartScore)
+    expect(engine.shotsRemaining).toBe(2)
+    expect(engine.currentBubble).toBe('red')
+    expect(engine.nextBubble).toBe('blue')
+    expect(bubbleCount(engine)).toBe(startingBubbles)
+  })
+
+  it('ends the game when the last life runs out', () => {
+    const engine = startPuzzle([puzzle({ shotSequence: ['blue'] })])
+    for (let life = 0; life < 3; life++) shoot(engine)
+    expect(engine.lives).toBe(0)
+    expect(engine.gameState).toBe('lost')
+  })
+})
+
+describe('undo', () => {
+  it('takes back the last shot', () => {
+    const engine = startPuzzle([puzzle({ shotSequence: ['red', 'blue', 'green'] })])
+    const before = {
+      current: engine.currentBubble,
+      next: engine.nextBubble,
+      shots: engine.shotsRemaining,
+      score: engine.score,
+      bubbles: bubbleCount(engine),
+      hash: engine.stateHash()
+    }
+    expect(engine.canUndo).toBe(false)
+
+    shoot(engine)
+    expect(engine.score).toBeGreaterThan(before.score)
+    expect(engine.canUndo).toBe(true)
+
+    const events = collect(engine)
+    engine.send({ type: 'undo' })
+    engine.step()
+    engine.update(0)
+    expect(events).toContainEqual({ type: 'shotUndone' })
+    expect(engine.currentBubble).toBe(before.current)
+    expect(engine.nextBubble).toBe(before.next)
+    expect(engine.shotsRemaining).toBe(before.shots)
+    expect(engine.score).toBe(before.score)
+    expect(bubbleCount(engine)).toBe(before.bubbles)
+    expect(engine.canUndo).toBe(false)
+  })
+
+  it('only takes back one shot', () => {
+    const engine = startPuzzle([puzzle({ shotSequence: ['blue', 'green', 'yellow'] })])
+    shoot(engine)
+    shoot(engine)
+    engine.send({ type: 'undo' })
+    engine.send({ type: 'undo' })
+    engine.step()
+    expect(engine.shotsRemaining).toBe(2)
+    expect(engine.currentBubble).toBe('green')
+  })
+
+  it("doesn't give back freeze time that has run down since the shot", () => {
+    const engine = startPuzzle([puzzle({ hasPowerUps: true, shotSequence: ['freeze', 'red', 'blue'] })])
+    shoot(engine)
+    shoot(engine)
+    for (let tick = 0; tick < 60; tick++) engine.step()
+    const frozen = engine.freezeRemaining
+    expect(frozen).toBeGreaterThan(0)
+
+    engine.send({ type: 'undo' })
+    engine.step()
+    expect(engine.currentBubble).toBe('red')
+    expect(engine.freezeRemaining).toBeCloseTo(frozen - GameEngine.FIXED_DT, 6)
+  })
+
+  it('takes back a freeze the undone shot set off', () => {
+    const engine = startPuzzle([puzzle({ hasPowerUps: true, shotSequence: ['freeze', 'red'] })])
+    shoot(engine)
+    expect(engine.freezeRemaining).toBeGreaterThan(0)
+    engine.send({ type: 'undo' })
+    engine.step()
+    expect(engine.currentBubble).toBe('freeze')
+    expect(engine.freezeRemaining).toBe(0)
+  })
+
+  it('is cleared when a life is lost', () => {
+    const engine = startPuzzle([puzzle({ shotSequence: ['blue', 'blue', 'blue'], rowSpeed: 6, loseConditions: ['ceiling'] })])
+    const events = collect(engine)
+    shoot(engine)
+    expect(engine.canUndo).toBe(true)
+    while (engine.lives === 3) engine.step()
+    engine.update(0)
+    expect(events.some(event => event.type === 'lifeLost' && event.reason === 'ceiling')).toBe(true)
+    expect(engine.canUndo).toBe(false)
+
+    engine.send({ type: 'undo' })
+    engine.step()
+    engine.update(0)
+    expect(events.some(event => event.type === 'shotUndone')).toBe(false)
+    expect(engine.shotsRemaining).toBe(2)
+  })
+})
+
+describe('rainbows', () => {
+  it('match as the neighboring color with the biggest cluster', () => {
+    const engine = startPuzzle([puzzle({ hasPowerUps: true, shotSequence: ['rainbow', 'red'], patterns: [['G . . . . . . . R B B . . . .']] })])
+    const events = collect(engine)
+    shoot(engine)
+    expect(colorsLeft(engine)).toEqual(['green', 'red'])
+    // Two blues at face value and the rainbow at its own rate
+    expect(awards(events)).toEqual([['match', 2 * 10 + 30]])
+  })
+
+  it('pop one color only when two clusters are the same size', () => {
+    const engine = startPuzzle([puzzle({
+      hasPowerUps: true,
+      shotSequence: ['rainbow', 'red'],
+      patterns: [[
+        'G . . . . . . . R B . . . . .',
+        ' . . . . . . . R . B . . . .'
+      ]]
+    })])
+    shoot(engine)
+    const left = colorsLeft(engine)
+    expect(left).toHaveLength(3)
+    expect(left[0]).toBe('green')
+    expect(left[1]).toBe(left[2])
+  })
+
+  it("don't carry a cluster on into another color when they sit on the board", () => {
+    const engine = startPuzzle([puzzle({ hasPowerUps: true, shotSequence: ['red', 'red'], patterns: [['G . . . . . . . R * B B . . .']] })])
+    const events = collect(engine)
+    shoot(engine)
+    expect(colorsLeft(engine)).toEqual(['green', 'blue', 'blue'])
+    expect(awards(events)).toEqual([['match', 2 * 10 + 30]])
+  })
+
+  it('keep the color they picked when they land without a match', () => {
+    const engine = startPuzzle([puzzle({ hasPowerUps: true, shotSequence: ['rainbow', 'red'] })])
+    engine.bubbles[0][9] = null
+    shoot(engine)
+    expect(colorsLeft(engine).sort()).toEqual(['green', 'red', 'red'])
+  })
+})
+
+describe('obstacles', () => {
+  it('armor loses one layer per match instead of popping', () => {
+    const engine = startPuzzle([puzzle({ hasObstacles: true, shotSequence: ['red', 'red', 'blue'], patterns: [['G . . . . . . . R2 R2 . . . . .']] })])
+    shoot(engine)
+    expect(engine.bubbles[0][8]).toMatchObject({ color: 'red', hits: 1 })
+    expect(engine.bubbles[0][9]).toMatchObject({ color: 'red', hits: 1 })
+    shoot(engine)
+    expect(colorsLeft(engine)).toEqual(['green'])
+  })
+
+  it('a chain breaks when a neighbor pops, and sits out of matches until then', () => {
+    const engine = startPuzzle([puzzle({ hasObstacles: true, shotSequence: ['red', 'blue', 'blue'], patterns: [['G . . . . . . . R R R& . . . .']] })])
+    shoot(engine)
+    expect(engine.bubbles[0][8]).toBeNull()
+    expect(engine.bubbles[0][9]).toBeNull()
+    expect(engine.bubbles[0][10]).toMatchObject({ color: 'red', chained: false })
+  })
+
+  it.each([
+    ['chained', 'B&', []],
+    ['unchained', 'B', ['yellow', 'blue', 'green']]
+  ])('a %s bubble cut off from the ceiling holds up what hangs from it', (_, token, fell) => {
+    const engine = startPuzzle([puzzle({
+      hasObstacles: true,
+      shotSequence: ['red', 'blue'],
+      patterns: [[
+        'G . . . . . . . R R . . . . .',
+        ' . . . . . . . . . Y . . . .',
+        `. . . . . . . . . . ${token} . . . .`,
+        ' . . . . . . . . . . G . . .'
+      ]]
+    })])
+    const events = collect(engine)
+    shoot(engine)
+    expect(events.flatMap(event => (event.type === 'bubblesDropped' ? event.bubbles.map(bubble => bubble.color) : []))).toEqual(fell)
+  })
+
+  it('stones survive bombs and are left out of clearing the board', () => {
+    const engine = startPuzzle([puzzle({
+      hasPowerUps: true,
+      hasObstacles: true,
+      shotSequence: ['bomb', 'red'],
+      patterns: [['. . . . . . . # R R . . . . .']]
+    })])
+    shoot(engine)
+    expect(colorsLeft(engine)).toEqual(['stone'])
+    expect(engine.gameState).toBe('levelComplete')
+  })
+})
+
+// Starts an endless run and skips its intro
+function startEndless(endlessTable: EndlessTable = ENDLESS_TABLE): GameEngine {
+  const engine = new GameEngine({ seed: 7, endlessTable })
+  engine.send({ type: 'startEndless' })
+  engine.step()
+  engine.send({ type: 'confirm' })
+  engine.step()
+  return engine
+}
+
+describe('endless', () => {
+  it('pushes full rows in pairs on the clock', () => {
+    const engine = startEndless()
+    const events = collect(engine)
+    const rows = engine.bubbles.length
+    // A few ticks over, for the rounding in the countdown
+    const ticks = 3 * ENDLESS_TABLE.startPushInterval * GameEngine.TICK_RATE + 5
+    for (let tick = 0; tick < ticks; tick++) engine.step()
+    engine.update(0)
+
+    expect(events.filter(event => event.type === 'rowsPushed')).toEqual(Array(3).fill({ type: 'rowsPushed', rows: 2 }))
+    expect(engine.bubbles).toHaveLength(rows + 6)
+    // Whole pairs keep every row on its parity, so even rows stay one cell longer
+    expect(engine.bubbles.slice(0, 6).map(row => row.filter(Boolean).length)).toEqual([15, 14, 15, 14, 15, 14])
+    expect(engine.lives).toBe(3)
+  })
+
+  it('pushes sooner as the difficulty goes up, counting down from the level it has reached', () => {
+    const table: EndlessTable = {
+      ...ENDLESS_TABLE,
+      scorePerLevel: 30,
+      startPushInterval: 4,
+      pushIntervalStep: 1,
+      minPushInterval: 1,
+      levelsPerColor: 1,
+      startMissesPerPush: 4,
+      minMissesPerPush: 1
+    }
+    const engine = startEndless(table)
+    const levels: number[] = []
+    const pushes: { level: number; pushRemaining: number; missesRemaining: number }[] = []
+    engine.on(event => {
+      if (event.type === 'difficultyUp') levels.push(event.level)
+      if (event.type === 'rowsPushed') {
+        pushes.push({ level: engine.level, pushRemaining: engine.pushRemaining, missesRemaining: engine.missesRemaining })
+      }
+    })
+
+    for (let tick = 0; tick < 40 * GameEngine.TICK_RATE && engine.gameState === 'playing' && engine.level < 4; tick++) {
+      if (tick % 30 === 0) {
+        engine.send({ type: 'aim', angle: -Math.PI / 2 + ((tick / 30) % 9 - 4) * 0.2 })
+        engine.send({ type: 'fire' })
+      }
+      engine.step()
+      // Hand the events out every tick so the listener sees the engine as it was on that tick
+      engine.update(0)
+    }
+
+    // A big shot can skip a level
+    expect(levels[0]).toBeGreaterThanOrEqual(2)
+    expect(levels).toEqual([...levels].sort((a, b) => a - b))
+    expect(engine.level).toBeGreaterThanOrEqual(4)
+    expect(pushes.length).toBeGreaterThan(0)
+    for (const push of pushes) {
+      const expected = endlessDifficulty(table, (push.level - 1) * table.scorePerLevel)
+      expect(push.missesRemaining).toBe(expected.missesPerPush)
+      // Rows pushed by a miss have had the rest of the tick to count down
+      expect(push.pushRemaining).toBeLessThanOrEqual(expected.pushInterval)
+      expect(push.pushRemaining).toBeGreaterThanOrEqual(expected.pushInterval - GameEngine.FIXED_DT - 1e-9)
+    }
+    expect(pushes.some(push => push.level > 1)).toBe(true)
+  })
+})
+
+describe('skill bonuses', () => {
+  it('pays a long bank shot its match points again and counts it as a combo step', () => {
+    const engine = startPuzzle([puzzle({ shotSequence: ['red', 'blue'], patterns: [['G . . . . . . . . . . . . R R']] })])
+    const events = collect(engine)
+    shoot(engine, -2.5)
+    expect(events).toContainEqual({ type: 'wallBounce' })
+    // Half again for the bounce and half again for travelling past the long-shot distance, then
+    // the combo pays the base again at its second step
+    expect(awards(events)).toEqual([['match', 30], ['bankShot', 30], ['combo', 30]])
+    expect(events).toContainEqual(expect.objectContaining({ type: 'score', event: expect.objectContaining({ kind: 'bankShot', callout: 'Bank Shot!' }) }))
+    expect(engine.score).toBe(90)
+    expect(engine.combo).toBe(2)
+  })
+
+  it('pays an avalanche for a big drop and counts it as a combo step', () => {
+    const engine = startPuzzle([puzzle({
+      shotSequence: ['red', 'blue'],
+      patterns: [[
+        'G . . . . . . . R R . . . . .',
+        ' . . . . . . . . . Y Y Y Y .',
+        '. . . . . . . . . . Y Y Y . .'
+      ]]
+    })])
+    const events = collect(engine)
+    shoot(engine)
+    // Seven yellows fall, which is the first avalanche tier
+    expect(awards(events)).toEqual([['match', 30], ['drop', 7 * 15], ['avalanche', 100], ['combo', 30 + 7 * 15]])
+    expect(events).toContainEqual(expect.objectContaining({ type: 'score', event: expect.objectContaining({ kind: 'avalanche', count: 7, callout: 'Avalanche!' }) }))
+    expect(engine.score).toBe(30 + 105 + 100 + 135)
+    expect(engine.combo).toBe(2)
+  })
+
+  it('pays nothing extra for a straight shot with a small drop', () => {
+    const engine = startPuzzle([puzzle({
+      shotSequence: ['red', 'blue'],
+      patterns: [[
+        'G . . . . . . . R R . . . . .',
+        ' . . . . . . . . . Y Y . . .'
+      ]]
+    })])
+    const events = collect(engine)
+    shoot(engine)
+    expect(awards(events)).toEqual([['match', 30], ['drop', 2 * 15]])
+    expect(engine.combo).toBe(1)
+  })
+})
+
+describe('freeze', () => {
+  it('stacks up to the cap', () => {
+    const engine = startPuzzle([puzzle({ hasPowerUps: true, shotSequence: ['freeze', 'freeze', 'freeze', 'red'] })])
+    const events = collect(engine)
+    shoot(engine)
+    shoot(engine)
+    shoot(engine)
+    const seconds = events.flatMap(event => (event.type === 'freeze' ? [event.seconds] : []))
+    expect(seconds[0]).toBe(engine.FREEZE_DURATION)
+    expect(seconds[1]).toBeGreaterThan(engine.FREEZE_DURATION)
+    expect(seconds[2]).toBe(engine.MAX_FREEZE)
+    expect(engine.freezeRemaining).toBeLessThanOrEqual(engine.MAX_FREEZE)
+  })
+
+  it('holds the ceiling and the level clock until it runs out', () => {
+    const engine = startPuzzle([puzzle({
+      hasPowerUps: true,
+      timeLimit: 60,
+      rowSpeed: 0.5,
+      loseConditions: ['outOfTime', 'ceiling'],
+      shotSequence: ['freeze', 'red']
+    })])
+    shoot(engine)
+    const time = engine.timeRemaining
+    const rowOffset = engine.rowOffset
+    for (let tick = 0; tick < 2 * GameEngine.TICK_RATE; tick++) engine.step()
+    expect(engine.freezeRemaining).toBeGreaterThan(0)
+    expect(engine.timeRemaining).toBe(time)
+    expect(engine.rowOffset).toBe(rowOffset)
+
+    while (engine.freezeRemaining > 0) engine.step()
+    for (let tick = 0; tick < GameEngine.TICK_RATE; tick++) engine.step()
+    expect(engine.timeRemaining).toBeLessThan(time as number)
+    expect(engine.rowOffset).toBeGreaterThan(rowOffset)
+  })
+})
+
+describe('level clock', () => {
+  const timed = (timeLimit: number) => puzzle({ timeLimit, loseConditions: ['outOfTime'], shotSequence: ['red', 'blue'] })
+
+  it('counts down while playing but not while paused', () => {
+    const engine = startPuzzle([timed(30)])
+    const start = engine.timeRemaining ?? 0
+    for (let tick = 0; tick < GameEngine.TICK_RATE; tick++) engine.step()
+    expect(engine.timeRemaining).toBeCloseTo(start - 1, 6)
+
+    engine.send({ type: 'pause' })
+    for (let tick = 0; tick < GameEngine.TICK_RATE; tick++) engine.step()
+    expect(engine.gameState).toBe('paused')
+    expect(engine.timeRemaining).toBeCloseTo(start - 1, 6)
+  })
+
+  it('costs a life and starts over when it runs out', () => {
+    const engine = startPuzzle([timed(2)])
+    const events = collect(engine)
+    while (engine.lives === 3) engine.step()
+    engine.update(0)
+    expect(events).toContainEqual({ type: 'lifeLost', lives: 2, reason: 'outOfTime' })
+    expect(engine.gameState).toBe('playing')
+    expect(engine.timeRemaining).toBe(2)
+  })
+
+  it('turns the whole seconds left into a bonus when the level is won', () => {
+    const engine = startPuzzle([timed(30)])
+    const events = collect(engine)
+    shoot(engine)
+    const left = engine.timeRemaining ?? 0
+    engine.bubbles[0][0] = null
+    engine.step()
+    engine.update(0)
+    expect(engine.gameState).toBe('levelComplete')
+    expect(awards(events)).toContainEqual(['timeBonus', Math.floor(left) * 10])
+  })
+})
+
+describe('swaps', () => {
+  it('trade the current and next bubble until the level runs out of them', () => {
+    const engine = startPuzzle([puzzle({ swaps: 2, shotSequence: ['red', 'blue', 'green', 'yellow'] })])
+    const swap = () => {
+      engine.send({ type: 'swap' })
+      engine.step()
+      return [engine.currentBubble, engine.nextBubble, engine.swapsRemaining]
+    }
+    expect(engine.swapsRemaining).toBe(2)
+    expect(swap()).toEqual(['blue', 'red', 1])
+    expect(swap()).toEqual(['red', 'blue', 0])
+    expect(swap()).toEqual(['red', 'blue', 0])
+  })
+
+  it("aren't spent on two bubbles of the same color", () => {
+    const engine = startPuzzle([puzzle({ swaps: 1, shotSequence: ['red', 'red', 'blue'] })])
+    engine.send({ type: 'swap' })
+    engine.step()
+    expect(engine.swapsRemaining).toBe(1)
+    expect([engine.currentBubble, engine.nextBubble]).toEqual(['red', 'red'])
+  })
+
+  it('only work while playing', () => {
+    const engine = new GameEngine({ seed: 7, puzzles: [puzzle({ swaps: 1, shotSequence: ['red', 'blue'] })] })
+    engine.send({ type: 'selectPuzzle', puzzle: 1 })
+    engine.step()
+    engine.send({ type: 'swap' })
+    engine.step()
+    expect(engine.gameState).toBe('levelIntro')
+    expect([engine.currentBubble, engine.nextBubble, engine.swapsRemaining]).toEqual(['red', 'blue', 1])
+  })
+
+  it('are unlimited on levels that set no limit', () => {
+    const engine = startPuzzle([puzzle({ shotSequence: ['red', 'blue'] })])
+    for (let i = 0; i < 5; i++) {
+      engine.send({ type: 'swap' })
+      engine.step()
+    }
+    expect(engine.swapsRemaining).toBeNull()
+    expect([engine.currentBubble, engine.nextBubble]).toEqual(['blue', 'red'])
+  })
+})
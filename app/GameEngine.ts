@@ -0,0 +1,1367 @@
+import { EndlessDifficulty, endlessDifficulty, ENDLESS_TABLE, EndlessTable } from './endless'
+import { Cell, cellCenter, distance, HexLayout, neighbors, rowLength, snapCell } from './hexGrid'
+import { COLORS, LEVELS, POWER_UPS } from './levels'
+import {
+  checkLoseCondition,
+  checkObjective,
+  DEFAULT_LOSE_CONDITIONS,
+  DEFAULT_OBJECTIVES,
+  LevelState,
+  LoseCondition,
+  ObjectiveProgress
+} from './objectives'
+import { parsePattern, PatternError } from './patterns'
+import { PUZZLES } from './puzzles'
+import Random, { deriveSeed, hashString, randomSeed } from './Random'
+import {
+  avalancheTier,
+  bankShotCallout,
+  bankShotPoints,
+  bombPoints,
+  comboPoints,
+  dropPoints,
+  emptyBreakdown,
+  matchPoints,
+  SCORE_TABLE,
+  ScoreBreakdown,
+  ScoreEventKind,
+  ScoreTable,
+  timeBonusPoints
+} from './scoring'
+import type {
+  Bubble,
+  BubbleColor,
+  GameCommand,
+  GameEvent,
+  GameMode,
+  GameState,
+  LevelConfig,
+  LevelSummary,
+  PatternCell,
+  ShootingBubble,
+  ShotPrediction
+} from './types'
+
+export interface EngineOptions {
+  width?: number
+  height?: number
+  seed?: number
+  levels?: LevelConfig[]
+  puzzles?: LevelConfig[]
+  // Skip the menu and begin on this level, e.g. when play-testing from the editor
+  startLevel?: number
+  scoreTable?: ScoreTable
+  endlessTable?: EndlessTable
+}
+
+// Everything a shot can change, so puzzle mode can take it back
+interface UndoSnapshot {
+  bubbles: (Bubble | null)[][]
+  rowOffset: number
+  score: number
+  combo: number
+  maxCombo: number
+  levelMaxCombo: number
+  levelBreakdown: ScoreBreakdown
+  levelShots: number
+  levelMatchedShots: number
+  levelSkillMoves: number
+  runShots: number
+  runMatchedShots: number
+  currentBubble: BubbleColor | null
+  nextBubble: BubbleColor | null
+  queued: number
+  swapsRemaining: number | null
+  shotsRemaining: number | null
+  taggedFreed: number
+  // Counts down with the live freeze while the snapshot is kept
+  freezeRemaining: number
+}
+
+// Every state the game may move to from each state; anything else is a bug
+const TRANSITIONS: Record<GameState, GameState[]> = {
+  menu: ['levelIntro', 'settings'],
+  levelIntro: ['playing'],
+  playing: ['paused', 'levelComplete', 'lost'],
+  paused: ['playing', 'settings', 'menu'],
+  settings: ['menu', 'paused'],
+  levelComplete: ['levelIntro', 'won'],
+  won: ['menu'],
+  lost: ['menu']
+}
+
+export default class GameEngine {
+  static readonly TICK_RATE = 60
+  static readonly FIXED_DT = 1 / GameEngine.TICK_RATE
+  // Longest frame we try to catch up on, so a backgrounded tab doesn't fast-forward
+  static readonly MAX_FRAME_TIME = 0.25
+
+  readonly width: number
+  readonly height: number
+  readonly shooterX: number
+  readonly shooterY: number
+  readonly seed: number
+  readonly levels: LevelConfig[]
+  readonly puzzles: LevelConfig[]
+  readonly scoreTable: ScoreTable
+  readonly endlessTable: EndlessTable
+
+  readonly BUBBLE_RADIUS = 20
+  readonly ROWS = 10
+  readonly COLS = 15
+  readonly BUBBLE_SPACING = 42
+  // Rows a shot can settle into; authored boards only fill the first ROWS
+  readonly MAX_ROWS: number
+  readonly layout: HexLayout
+  // Per-tick amounts; ticks always advance at TICK_RATE
+  readonly SHOT_SPEED = 12
+  readonly POP_STEP = 0.1
+  readonly TIME_WARNING = 30
+  // Seconds of ceiling freeze per freeze bubble, and the most that can be banked by stacking them
+  readonly FREEZE_DURATION = 5
+  readonly MAX_FREEZE = 10
+  readonly SWAP_STEP = 0.125
+  // Seconds the level intro stays up before play starts on its own
+  readonly LEVEL_INTRO_DURATION = 2
+  // Star targets scale with the breakable bubbles on the starting board
+  readonly PAR_SHOTS_PER_BUBBLE = 0.4
+  readonly TARGET_SCORE_PER_BUBBLE = 20
+  // Bank shots and avalanches on a level that make up for a missed star
+  readonly SKILL_MOVES_FOR_STAR = 3
+  // Endless mode pushes rows in pairs so every row keeps its parity, and with it the half-cell
+  // stagger of the odd-r layout. New rows slide down from above the board at this many pixels a tick.
+  readonly PUSH_ROWS = 2
+  readonly PUSH_SLIDE_SPEED = 2
+
+  tick: number = 0
+
+  // Game state
+  gameState: GameState = 'menu'
+  mode: GameMode = 'campaign'
+  // In endless mode, the difficulty level reached
+  level: number = 1
+  score: number = 0
+  lives: number = 3
+  combo: number = 0
+  maxCombo: number = 0
+  // Seconds left on the level clock, or null when the level has no time limit
+  timeRemaining: number | null = null
+  // Seconds the descending ceiling and the level clock stay frozen
+  freezeRemaining: number = 0
+  introRemaining: number = 0
+  lastSummary: LevelSummary | null = null
+  // Endless mode only: the current difficulty, and what's left until the next push
+  endless: EndlessDifficulty | null = null
+  pushRemaining: number = 0
+  missesRemaining: number = 0
+
+  // Bubble grid
+  bubbles: (Bubble | null)[][] = []
+  rowOffset: number = 0
+
+  // Shooter
+  currentBubble: BubbleColor | null = null
+  nextBubble: BubbleColor | null = null
+  shootingBubble: ShootingBubble | null = null
+  aimAngle: number = -Math.PI / 2
+  // Swaps left this level, or null when the level allows any number
+  swapsRemaining: number | null = null
+  // Runs from 0 to 1 while the current and next bubble trade places
+  swapProgress: number = 1
+  // Shots left this level, or null when the level has no shot limit
+  shotsRemaining: number | null = null
+  // Tagged bubbles popped or dropped this level
+  taggedFreed: number = 0
+
+  private commands: GameCommand[] = []
+  private accumulator: number = 0
+  private events: GameEvent[] = []
+  private listeners: ((event: GameEvent) => void)[] = []
+  // Where closing the settings screen goes back to
+  private settingsReturn: GameState = 'menu'
+  // Per-level tallies for the level-complete summary
+  private levelStartScore: number = 0
+  private levelShots: number = 0
+  private levelMatchedShots: number = 0
+  private levelBreakdown: ScoreBreakdown = emptyBreakdown()
+  // Whole-run tallies for the game-over event
+  private runShots: number = 0
+  private runMatchedShots: number = 0
+  private runRowsPushed: number = 0
+  private levelMaxCombo: number = 0
+  private levelBubbles: number = 0
+  private levelSkillMoves: number = 0
+  // Last pressure level announced, in tenths of the way to the loss line
+  private pressure: number = 0
+  // Bubbles drawn for the shot queue this level, which is the index into a fixed shotSequence
+  private queued: number = 0
+  // Puzzle mode: the level as it was just before the last shot, for undo
+  private undoSnapshot: UndoSnapshot | null = null
+  // Separate streams so the shot queue doesn't shift when a board layout changes
+  private boardRng: Random
+  private queueRng: Random
+
+  constructor(options: EngineOptions = {}) {
+    this.width = options.width ?? 800
+    this.height = options.height ?? 900
+    this.shooterX = this.width / 2
+    this.shooterY = this.height - 60
+    this.layout = {
+      spacing: this.BUBBLE_SPACING,
+      rowHeight: this.BUBBLE_SPACING * 0.87,
+      originX: this.BUBBLE_SPACING,
+      originY: this.BUBBLE_SPACING,
+      cols: this.COLS
+    }
+    this.MAX_ROWS = Math.floor((this.shooterY - this.layout.originY) / this.layout.rowHeight) + 1
+    this.seed = options.seed ?? randomSeed()
+    this.levels = options.levels ?? LEVELS
+    this.puzzles = options.puzzles ?? PUZZLES
+    this.scoreTable = options.scoreTable ?? SCORE_TABLE
+    this.endlessTable = options.endlessTable ?? ENDLESS_TABLE
+    this.boardRng = new Random(deriveSeed(this.seed, 'board', this.level))
+    this.queueRng = new Random(deriveSeed(this.seed, 'queue', this.level))
+
+    if (options.startLevel) {
+      this.startLevel(options.startLevel)
+    }
+  }
+
+  get config(): LevelConfig {
+    return this.endless?.config ?? this.levelSet[this.level - 1]
+  }
+
+  // Levels of the mode being played; endless generates its own
+  get levelSet(): LevelConfig[] {
+    return this.mode === 'puzzle' ? this.puzzles : this.levels
+  }
+
+  get canUndo(): boolean {
+    return this.gameState === 'playing' && this.undoSnapshot !== null
+  }
+
+  get timeWarning(): boolean {
+    return this.timeRemaining !== null && this.timeRemaining <= this.TIME_WARNING
+  }
+
+  send(command: GameCommand) {
+    this.commands.push(command)
+  }
+
+  // Returns a function that removes the listener
+  on(listener: (event: GameEvent) => void): () => void {
+    this.listeners.push(listener)
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener)
+    }
+  }
+
+  // Advances the simulation by dt seconds of wall-clock time, in fixed ticks
+  update(dt: number) {
+    this.accumulator += Math.min(Math.max(dt, 0), GameEngine.MAX_FRAME_TIME)
+    while (this.accumulator >= GameEngine.FIXED_DT) {
+      this.step()
+      this.accumulator -= GameEngine.FIXED_DT
+    }
+    this.flushEvents()
+  }
+
+  // Listeners run outside the tick so they can't observe a half-updated simulation
+  private flushEvents() {
+    const events = this.events
+    this.events = []
+    for (const event of events) {
+      for (const listener of this.listeners) {
+        listener(event)
+      }
+    }
+  }
+
+  private emit(event: GameEvent) {
+    this.events.push(event)
+  }
+
+  private setState(next: GameState) {
+    const from = this.gameState
+    if (!TRANSITIONS[from].includes(next)) {
+      throw new Error(`Invalid game state transition: ${from} -> ${next}`)
+    }
+    this.gameState = next
+    this.emit({ type: 'stateChange', from, to: next })
+  }
+
+  step() {
+    const commands = this.commands
+    this.commands = []
+    for (const command of commands) {
+      this.applyCommand(command)
+    }
+
+    this.tick++
+    if (this.gameState === 'levelIntro') {
+      this.introRemaining = Math.max(0, this.introRemaining - GameEngine.FIXED_DT)
+      if (this.introRemaining === 0) this.setState('playing')
+      return
+    }
+    if (this.gameState !== 'playing') return
+
+    // Update shooting bubble
+    if (this.shootingBubble) {
+      if (this.moveShot(this.shootingBubble)) this.emit({ type: 'wallBounce' })
+      const contact = this.findContact(this.shootingBubble, 0)
+      if (contact) {
+        this.addBubbleToGrid(this.shootingBubble, contact)
+        this.shootingBubble = null
+      }
+    }
+
+    if (this.swapProgress < 1) {
+      this.swapProgress = Math.min(1, this.swapProgress + this.SWAP_STEP)
+    }
+
+    // Update popping animations
+    for (let row = 0; row < this.bubbles.length; row++) {
+      for (let col = 0; col < this.bubbles[row].length; col++) {
+        const bubble = this.bubbles[row][col]
+        if (bubble?.isPopping) {
+          bubble.popProgress = (bubble.popProgress || 0) + this.POP_STEP
+          if (bubble.popProgress >= 1) {
+            this.bubbles[row][col] = null
+          }
+        }
+      }
+    }
+
+    // Update row offset for moving rows; a freeze also holds off endless pushes and the level clock
+    const frozen = this.freezeRemaining > 0
+    if (frozen) {
+      this.freezeRemaining = Math.max(0, this.freezeRemaining - GameEngine.FIXED_DT)
+      // The freeze saved for undo runs down alongside, so undo can't hand back time already used
+      if (this.undoSnapshot) {
+        this.undoSnapshot.freezeRemaining = Math.max(0, this.undoSnapshot.freezeRemaining - GameEngine.FIXED_DT)
+      }
+    } else {
+      const speed = this.ceilingSpeed(this.rowOffset)
+      if (speed > 0) {
+        this.rowOffset += speed
+        this.updateBubblePositions()
+      }
+      if (this.endless && this.gameState === 'playing') {
+        this.pushRemaining = Math.max(0, this.pushRemaining - GameEngine.FIXED_DT)
+        if (this.pushRemaining === 0) this.pushRows(this.endless)
+      }
+    }
+
+    // Level clock
+    if (this.timeRemaining !== null && this.gameState === 'playing' && !frozen) {
+      this.timeRemaining = Math.max(0, this.timeRemaining - GameEngine.FIXED_DT)
+    }
+
+    if (this.gameState === 'playing') {
+      this.checkConditions()
+    }
+    if (this.gameState === 'playing') {
+      this.updatePressure()
+    }
+  }
+
+  // Objectives are checked before lose conditions, so a last shot that meets them wins the level
+  // rather than running out of shots
+  private checkConditions() {
+    const state = this.levelState()
+    if (this.objectives(state).every(progress => progress.done)) {
+      // An endless board never runs out, it just gets more rows
+      if (this.endless) {
+        this.award('clear', this.scoreTable.clear, this.width / 2, this.height / 2, 0)
+        this.pushRows(this.endless)
+      } else {
+        this.completeLevel()
+      }
+      return
+    }
+
+    for (const condition of this.config.loseConditions ?? DEFAULT_LOSE_CONDITIONS) {
+      if (checkLoseCondition(condition, state)) {
+        this.failLevel(condition)
+        return
+      }
+    }
+  }
+
+  // Progress towards each of the level's objectives, for the HUD
+  objectives(state: LevelState = this.levelState()): ObjectiveProgress[] {
+    return (this.config.objectives ?? DEFAULT_OBJECTIVES).map(objective => checkObjective(objective, state))
+  }
+
+  private levelState(): LevelState {
+    return {
+      bubbles: this.bubbles,
+      levelScore: this.score - this.levelStartScore,
+      taggedFreed: this.taggedFreed,
+      timeRemaining: this.timeRemaining,
+      shotsRemaining: this.shotsRemaining,
+      settled: !this.shootingBubble && !this.bubbles.some(row => row.some(bubble => bubble?.isPopping)),
+      pastLine: this.lowestBubbleBottom() > this.lossLine
+    }
+  }
+
+  // Fingerprint of everything that affects play, so replays can detect when they drift apart
+  stateHash(): number {
+    const shot = this.shootingBubble
+    const parts: (string | number | null)[] = [
+      this.tick, this.gameState, this.level, this.score, this.lives, this.combo, this.rowOffset, this.aimAngle,
+      this.currentBubble, this.nextBubble, this.swapsRemaining, this.timeRemaining, this.freezeRemaining,
+      shot ? `${shot.x},${shot.y},${shot.vx},${shot.vy},${shot.color}` : null,
+      this.mode, this.pushRemaining, this.missesRemaining, this.shotsRemaining, this.taggedFreed
+    ]
+    for (const row of this.bubbles) {
+      parts.push(row.map(b => (b ? `${b.color}${b.hits ?? ''}${b.chained ? '&' : ''}${b.tagged ? '@' : ''}${b.isPopping ? '~' : ''}` : '.')).join(' '))
+    }
+    return hashString(parts.join('|'))
+  }
+
+  getBubbleX(row: number, col: number): number {
+    return cellCenter(this.layout, { row, col }).x
+  }
+
+  getBubbleY(row: number): number {
+    return cellCenter(this.layout, { row, col: 0 }, this.rowOffset).y
+  }
+
+  private applyCommand(command: GameCommand) {
+    switch (command.type) {
+      case 'aim':
+        this.setAimAngle(command.angle)
+        break
+      case 'aimAt':
+        this.aimAt(command.x, command.y)
+        break
+      case 'fire':
+        this.shoot()
+        break
+      case 'swap':
+        this.swap()
+        break
+      case 'confirm':
+        this.confirm()
+        break
+      case 'pause':
+        if (this.gameState === 'playing') this.setState('paused')
+        break
+      case 'resume':
+        if (this.gameState === 'paused') this.setState('playing')
+        break
+      case 'openSettings':
+        if (this.gameState === 'menu' || this.gameState === 'paused') {
+          this.settingsReturn = this.gameState
+          this.setState('settings')
+        }
+        break
+      case 'closeSettings':
+        if (this.gameState === 'settings') this.setState(this.settingsReturn)
+        break
+      case 'selectLevel':
+        if (this.gameState === 'menu' && command.level >= 1 && command.level <= this.levels.length) {
+          this.startLevel(command.level)
+        }
+        break
+      case 'startEndless':
+        if (this.gameState === 'menu') this.startEndless()
+        break
+      case 'selectPuzzle':
+        if (this.gameState === 'menu' && command.puzzle >= 1 && command.puzzle <= this.puzzles.length) {
+          this.mode = 'puzzle'
+          this.startLevel(command.puzzle)
+        }
+        break
+      case 'undo':
+        this.undo()
+        break
+      case 'quit':
+        if (this.gameState === 'paused') this.returnToMenu()
+        break
+    }
+  }
+
+  // Moves past whichever screen is showing
+  private confirm() {
+    switch (this.gameState) {
+      case 'menu':
+        this.startLevel(1)
+        break
+      case 'levelIntro':
+        this.setState('playing')
+        break
+      case 'paused':
+        this.setState('playing')
+        break
+      case 'levelComplete':
+        if (this.level >= this.levelSet.length) {
+          this.setState('won')
+          this.emitGameOver(true)
+        } else {
+          this.startLevel(this.level + 1)
+        }
+        break
+      case 'won':
+      case 'lost':
+        this.returnToMenu()
+        break
+    }
+  }
+
+  private returnToMenu() {
+    this.setState('menu')
+    this.mode = 'campaign'
+    this.endless = null
+    this.level = 1
+    this.score = 0
+    this.lives = 3
+    this.maxCombo = 0
+    this.lastSummary = null
+    this.runShots = 0
+    this.runMatchedShots = 0
+    this.runRowsPushed = 0
+  }
+
+  private emitGameOver(won: boolean) {
+    this.emit({
+      type: 'gameOver',
+      mode: this.mode,
+      won,
+      score: this.score,
+      maxCombo: this.maxCombo,
+      level: this.level,
+      shots: this.runShots,
+      matchedShots: this.runMatchedShots,
+      rowsPushed: this.runRowsPushed
+    })
+  }
+
+  private completeLevel() {
+    this.award('clear', this.scoreTable.clear, this.width / 2, this.height / 2, 0)
+    if (this.timeRemaining !== null) {
+      this.award('timeBonus', timeBonusPoints(this.scoreTable, this.timeRemaining), this.width / 2, this.height / 2 + 40, 0)
+    }
+    const levelScore = this.score - this.levelStartScore
+
+    const parShots = Math.ceil(this.levelBubbles * this.PAR_SHOTS_PER_BUBBLE)
+    const targetScore = this.levelBubbles * this.TARGET_SCORE_PER_BUBBLE
+    let stars = 1
+    if (this.levelShots <= parShots) stars++
+    if (levelScore >= targetScore) stars++
+    if (stars < 3 && this.levelSkillMoves >= this.SKILL_MOVES_FOR_STAR) stars++
+
+    this.lastSummary = {
+      mode: this.mode,
+      level: this.level,
+      levelScore,
+      breakdown: { ...this.levelBreakdown },
+      shots: this.levelShots,
+      matchedShots: this.levelMatchedShots,
+      maxCombo: this.levelMaxCombo,
+      totalScore: this.score,
+      final: this.level >= this.levelSet.length,
+      stars,
+      parShots,
+      targetScore,
+      skillMoves: this.levelSkillMoves,
+      skillTarget: this.SKILL_MOVES_FOR_STAR
+    }
+    this.shootingBubble = null
+    this.setState('levelComplete')
+    this.emit({ type: 'levelComplete', summary: this.lastSummary })
+  }
+
+  private aimAt(x: number, y: number) {
+    const dx = x - this.shooterX
+    const dy = y - this.shooterY
+    if (dy < 0) {
+      this.setAimAngle(Math.atan2(dy, dx))
+    }
+  }
+
+  private setAimAngle(angle: number) {
+    // Clamp angle
+    const minAngle = -Math.PI + 0.3
+    const maxAngle = -0.3
+    this.aimAngle = Math.min(maxAngle, Math.max(minAngle, angle))
+  }
+
+  private shoot() {
+    if (this.shootingBubble || !this.currentBubble || this.gameState !== 'playing') return
+
+    if (this.mode === 'puzzle') this.undoSnapshot = this.takeSnapshot()
+    this.shootingBubble = this.createShot(this.aimAngle, this.currentBubble)
+    this.emit({ type: 'shot', color: this.currentBubble })
+    this.levelShots++
+    this.runShots++
+    if (this.shotsRemaining !== null) this.shotsRemaining--
+
+    this.currentBubble = this.nextBubble
+    this.nextBubble = this.queueBubble()
+    this.swapProgress = 1
+  }
+
+  private takeSnapshot(): UndoSnapshot {
+    return {
+      // Anything still popping from the shot before is gone by the time this shot lands
+      bubbles: this.bubbles.map(row => row.map(bubble => (bubble && !bubble.isPopping ? { ...bubble } : null))),
+      rowOffset: this.rowOffset,
+      score: this.score,
+      combo: this.combo,
+      maxCombo: this.maxCombo,
+      levelMaxCombo: this.levelMaxCombo,
+      levelBreakdown: { ...this.levelBreakdown },
+      levelShots: this.levelShots,
+      levelMatchedShots: this.levelMatchedShots,
+      levelSkillMoves: this.levelSkillMoves,
+      runShots: this.runShots,
+      runMatchedShots: this.runMatchedShots,
+      currentBubble: this.currentBubble,
+      nextBubble: this.nextBubble,
+      queued: this.queued,
+      swapsRemaining: this.swapsRemaining,
+      shotsRemaining: this.shotsRemaining,
+      taggedFreed: this.taggedFreed,
+      freezeRemaining: this.freezeRemaining
+    }
+  }
+
+  // Puts the level back the way it was before the last shot; only one shot can be taken back.
+  // The level clock and any freeze keep running, so undo can't buy time.
+  private undo() {
+    const snapshot = this.undoSnapshot
+    if (!snapshot || this.gameState !== 'playing') return
+
+    this.undoSnapshot = null
+    this.shootingBubble = null
+    this.bubbles = snapshot.bubbles
+    this.rowOffset = snapshot.rowOffset
+    this.score = snapshot.score
+    this.combo = snapshot.combo
+    this.maxCombo = snapshot.maxCombo
+    this.levelMaxCombo = snapshot.levelMaxCombo
+    this.levelBreakdown = snapshot.levelBreakdown
+    this.levelShots = snapshot.levelShots
+    this.levelMatchedShots = snapshot.levelMatchedShots
+    this.levelSkillMoves = snapshot.levelSkillMoves
+    this.runShots = snapshot.runShots
+    this.runMatchedShots = snapshot.runMatchedShots
+    this.currentBubble = snapshot.currentBubble
+    this.nextBubble = snapshot.nextBubble
+    this.queued = snapshot.queued
+    this.swapsRemaining = snapshot.swapsRemaining
+    this.shotsRemaining = snapshot.shotsRemaining
+    this.taggedFreed = snapshot.taggedFreed
+    this.freezeRemaining = snapshot.freezeRemaining
+    this.swapProgress = 1
+    this.updateBubblePositions()
+    this.emit({ type: 'shotUndone' })
+  }
+
+  private swap() {
+    if (this.gameState !== 'playing' || !this.currentBubble || !this.nextBubble) return
+    // Trading two identical bubbles would only burn a swap
+    if (this.swapsRemaining === 0 || this.currentBubble === this.nextBubble) return
+
+    const current = this.currentBubble
+    this.currentBubble = this.nextBubble
+    this.nextBubble = current
+    this.swapProgress = 0
+    if (this.swapsRemaining !== null) {
+      this.swapsRemaining--
+    }
+  }
+
+  private get shotLimit(): number | null {
+    return this.config.shotLimit ?? this.config.shotSequence?.length ?? null
+  }
+
+  // Draws the next bubble for the shot queue, from the level's fixed sequence when it has one.
+  // Nothing more is drawn once the shot limit is reached.
+  private queueBubble(): BubbleColor | null {
+    const limit = this.shotLimit
+    if (limit !== null && this.queued >= limit) return null
+    const sequence = this.config.shotSequence
+    const index = this.queued++
+    return sequence ? sequence[index % sequence.length] : this.getRandomColor(this.queueRng)
+  }
+
+  private getRandomColor(rng: Random): BubbleColor {
+    const config = this.config
+    const availableColors = COLORS.slice(0, config.colors)
+
+    // Occasionally add power-ups
+    if (config.hasPowerUps && rng.chance(config.powerUpChance ?? 0.1)) {
+      return rng.pick(POWER_UPS)
+    }
+
+    return rng.pick(availableColors)
+  }
+
+  private initBubbles() {
+    this.bubbles = []
+
+    const config = this.config
+    if (config.patterns.length > 0) {
+      this.buildFromPattern(this.boardRng.int(config.patterns.length))
+      return
+    }
+
+    for (let row = 0; row < 5; row++) {
+      this.bubbles[row] = []
+      for (let col = 0; col < rowLength(row, this.COLS); col++) {
+        if (this.boardRng.chance(0.8)) {
+          this.bubbles[row][col] = this.createBubble(row, col, this.randomCell())
+        } else {
+          this.bubbles[row][col] = null
+        }
+      }
+    }
+
+    for (let row = 5; row < this.ROWS; row++) {
+      this.bubbles[row] = []
+    }
+  }
+
+  private buildFromPattern(index: number) {
+    let cells: PatternCell[][]
+    try {
+      cells = parsePattern(this.config.patterns[index], {
+        rows: this.ROWS,
+        cols: this.COLS,
+        colors: this.config.colors,
+        obstacles: this.config.hasObstacles,
+        powerUps: this.config.hasPowerUps
+      })
+    } catch (e) {
+      if (e instanceof PatternError) {
+        throw new PatternError(`Level ${this.level}, pattern ${index + 1}: ${e.message}`)
+      }
+      throw e
+    }
+
+    for (let row = 0; row < this.ROWS; row++) {
+      this.bubbles[row] = []
+      const cols = cells[row]?.length ?? 0
+      for (let col = 0; col < cols; col++) {
+        const cell = cells[row][col]
+        this.bubbles[row][col] = cell ? this.createBubble(row, col, cell) : null
+      }
+    }
+  }
+
+  private randomCell(): NonNullable<PatternCell> {
+    const config = this.config
+    if (!config.hasObstacles || !this.boardRng.chance(0.08)) {
+      return { color: 'random' }
+    }
+
+    const color = this.boardRng.pick(COLORS.slice(0, config.colors))
+    switch (this.boardRng.int(3)) {
+      case 0:
+        return { color: 'stone' }
+      case 1:
+        return { color, hits: 2 }
+      default:
+        return { color, chained: true }
+    }
+  }
+
+  private createBubble(row: number, col: number, cell: NonNullable<PatternCell>): Bubble {
+    const bubble: Bubble = {
+      x: this.getBubbleX(row, col),
+      y: this.getBubbleY(row),
+      color: cell.color === 'random' ? this.getRandomColor(this.boardRng) : cell.color,
+      row,
+      col,
+      radius: this.BUBBLE_RADIUS
+    }
+    if (cell.hits) bubble.hits = cell.hits
+    if (cell.chained) bubble.chained = true
+    if (cell.tagged) bubble.tagged = true
+    return bubble
+  }
+
+  private startLevel(level: number) {
+    this.level = level
+    this.resetLevel()
+    this.introRemaining = this.LEVEL_INTRO_DURATION
+    this.setState('levelIntro')
+    this.emit({ type: 'levelIntro', level, config: this.config, mode: this.mode })
+  }
+
+  // Sets the current level up from scratch; a puzzle that runs out of shots starts over here too
+  private resetLevel() {
+    this.rowOffset = 0
+    this.timeRemaining = this.config.timeLimit ?? null
+    this.freezeRemaining = 0
+    this.swapsRemaining = this.config.swaps ?? null
+    this.swapProgress = 1
+    this.shootingBubble = null
+    // Endless runs and puzzles draw from their own streams rather than the campaign levels'
+    const stream = this.endless ? ['endless'] : this.mode === 'puzzle' ? ['puzzle', this.level] : [this.level]
+    this.boardRng = new Random(deriveSeed(this.seed, 'board', ...stream))
+    this.queueRng = new Random(deriveSeed(this.seed, 'queue', ...stream))
+    this.initBubbles()
+    this.queued = 0
+    this.shotsRemaining = this.shotLimit
+    this.currentBubble = this.queueBubble()
+    this.nextBubble = this.queueBubble()
+    this.taggedFreed = 0
+    this.undoSnapshot = null
+    this.combo = 0
+    this.levelStartScore = this.score
+    this.levelShots = 0
+    this.levelMatchedShots = 0
+    this.levelBreakdown = emptyBreakdown()
+    this.levelMaxCombo = 0
+    this.levelSkillMoves = 0
+    this.levelBubbles = this.bubbles.flat().filter(bubble => bubble && bubble.color !== 'stone').length
+  }
+
+  private startEndless() {
+    this.mode = 'endless'
+    this.endless = endlessDifficulty(this.endlessTable, 0)
+    this.pushRemaining = this.endless.pushInterval
+    this.missesRemaining = this.endless.missesPerPush
+    this.startLevel(this.endless.level)
+  }
+
+  // Pushes a fresh pair of full rows in at the top. They start above the board and slide down,
+  // shoving everything below them towards the shooter. The countdowns restart from `difficulty`.
+  private pushRows(difficulty: EndlessDifficulty) {
+    const rows: (Bubble | null)[][] = []
+    for (let row = 0; row < this.PUSH_ROWS; row++) {
+      rows.push(Array.from({ length: rowLength(row, this.COLS) }, (_, col) => this.createBubble(row, col, this.randomCell())))
+    }
+    this.bubbles = [...rows, ...this.bubbles]
+    for (let row = this.PUSH_ROWS; row < this.bubbles.length; row++) {
+      for (const bubble of this.bubbles[row]) {
+        if (bubble) bubble.row = row
+      }
+    }
+    this.rowOffset -= this.PUSH_ROWS * this.layout.rowHeight
+    this.updateBubblePositions()
+
+    this.runRowsPushed += this.PUSH_ROWS
+    this.pushRemaining = difficulty.pushInterval
+    this.missesRemaining = difficulty.missesPerPush
+    this.emit({ type: 'rowsPushed', rows: this.PUSH_ROWS })
+  }
+
+  // A shot that didn't pop anything; in endless mode enough of them bring the next rows in early
+  private countMiss() {
+    this.combo = 0
+    if (!this.endless) return
+    this.missesRemaining--
+    if (this.missesRemaining <= 0) this.pushRows(this.endless)
+  }
+
+  // How far the ceiling moves this tick with the board at `rowOffset`: a level's steady descent,
+  // or pushed endless rows sliding into place
+  private ceilingSpeed(rowOffset: number): number {
+    if (this.endless) return Math.min(this.PUSH_SLIDE_SPEED, Math.max(0, -rowOffset))
+    return this.config.rowSpeed ?? 0
+  }
+
+  private get lossLine(): number {
+    return this.shooterY - 50
+  }
+
+  private isPastLine(bubble: Bubble): boolean {
+    return bubble.y + this.BUBBLE_RADIUS > this.lossLine
+  }
+
+  private clearPastLine() {
+    for (const row of this.bubbles) {
+      for (let col = 0; col < row.length; col++) {
+        const bubble = row[col]
+        if (bubble && this.isPastLine(bubble)) row[col] = null
+      }
+    }
+  }
+
+  // Endless runs have no lives to spend, so the first loss ends them. Otherwise it costs a life;
+  // running out of shots starts the level over, since there'd be nothing left to shoot
+  private failLevel(condition: LoseCondition) {
+    if (this.endless) {
+      this.setState('lost')
+      this.emitGameOver(false)
+      return
+    }
+
+    this.loseLife(condition)
+    if (this.gameState !== 'playing') return
+    if (condition === 'ceiling') {
+      // Raising the ceiling again doesn't help a board that shots stacked past the line
+      this.clearPastLine()
+    } else if (condition === 'outOfShots') {
+      this.score = this.levelStartScore
+      this.resetLevel()
+    }
+  }
+
+  // Endless difficulty follows the score
+  private updateDifficulty() {
+    if (!this.endless) return
+    const next = endlessDifficulty(this.endlessTable, this.score)
+    if (next.level === this.endless.level) return
+    this.endless = next
+    this.level = next.level
+    // A shorter interval takes effect straight away rather than after the current countdown
+    this.pushRemaining = Math.min(this.pushRemaining, next.pushInterval)
+    this.missesRemaining = Math.min(this.missesRemaining, next.missesPerPush)
+    this.emit({ type: 'difficultyUp', level: next.level, config: next.config })
+  }
+
+  // Running out of room, time or shots costs a life and resets the ceiling and clock
+  private loseLife(reason: LoseCondition) {
+    this.lives--
+    this.emit({ type: 'lifeLost', lives: this.lives, reason })
+    if (this.lives <= 0) {
+      this.setState('lost')
+      this.emitGameOver(false)
+      return
+    }
+    this.rowOffset = 0
+    this.updateBubblePositions()
+    this.timeRemaining = this.config.timeLimit ?? null
+    this.freezeRemaining = 0
+    // Undoing the shot that cost the life would hand it back
+    this.undoSnapshot = null
+  }
+
+  private updateBubblePositions() {
+    for (let row = 0; row < this.bubbles.length; row++) {
+      for (let col = 0; col < this.bubbles[row].length; col++) {
+        const bubble = this.bubbles[row][col]
+        if (bubble) {
+          bubble.y = this.getBubbleY(row)
+        }
+      }
+    }
+  }
+
+  // Bottom edge of the lowest bubble still on the board
+  private lowestBubbleBottom(): number {
+    let lowest = -Infinity
+    for (const row of this.bubbles) {
+      for (const bubble of row) {
+        if (bubble && !bubble.isPopping) lowest = Math.max(lowest, bubble.y + this.BUBBLE_RADIUS)
+      }
+    }
+    return lowest
+  }
+
+  private updatePressure() {
+    const top = this.layout.originY - this.BUBBLE_RADIUS
+    const fill = (this.lowestBubbleBottom() - top) / (this.lossLine - top)
+    const pressure = Math.min(10, Math.max(0, Math.floor(fill * 10))) / 10
+    if (pressure === this.pressure) return
+    this.pressure = pressure
+    this.emit({ type: 'pressure', level: pressure })
+  }
+
+  // Runs the shot the engine would fire at `angle` without touching game state, using the
+  // same movement, collision and snapping code as a real shot
+  predictShot(angle: number = this.aimAngle, maxTicks: number = 600): ShotPrediction {
+    const shot = this.createShot(angle, this.currentBubble ?? 'red')
+    const path = [{ x: shot.x, y: shot.y }]
+    let freeze = this.freezeRemaining
+    let descent = 0
+
+    for (let tick = 0; tick < maxTicks; tick++) {
+      if (this.moveShot(shot)) {
+        path.push({ x: shot.x, y: shot.y })
+      }
+      const contact = this.findContact(shot, descent)
+      if (contact) {
+        path.push({ x: shot.x, y: shot.y })
+        const cell = this.landingCell(shot, contact, this.rowOffset + descent)
+        return {
+          path,
+          bounces: shot.bounces,
+          landing: cell && { ...cell, x: this.getBubbleX(cell.row, cell.col), y: this.getBubbleY(cell.row) }
+        }
+      }
+
+      // Mirror the ceiling movement that happens while the real shot is in flight
+      if (freeze > 0) {
+        freeze = Math.max(0, freeze - GameEngine.FIXED_DT)
+      } else {
+        descent += this.ceilingSpeed(this.rowOffset + descent)
+      }
+    }
+
+    path.push({ x: shot.x, y: shot.y })
+    return { path, bounces: shot.bounces, landing: null }
+  }
+
+  private createShot(angle: number, color: BubbleColor): ShootingBubble {
+    return {
+      x: this.shooterX,
+      y: this.shooterY - 30,
+      vx: Math.cos(angle) * this.SHOT_SPEED,
+      vy: Math.sin(angle) * this.SHOT_SPEED,
+      color,
+      radius: this.BUBBLE_RADIUS,
+      bounces: 0,
+      distance: 0
+    }
+  }
+
+  // Moves a shot by one tick, reflecting it off the side walls; returns whether it bounced
+  private moveShot(shot: ShootingBubble): boolean {
+    shot.x += shot.vx
+    shot.y += shot.vy
+    shot.distance += this.SHOT_SPEED
+
+    // Wall collision
+    if (shot.x - this.BUBBLE_RADIUS < 0) {
+      shot.x = this.BUBBLE_RADIUS
+      shot.vx *= -1
+      shot.bounces++
+      return true
+    }
+    if (shot.x + this.BUBBLE_RADIUS > this.width) {
+      shot.x = this.width - this.BUBBLE_RADIUS
+      shot.vx *= -1
+      shot.bounces++
+      return true
+    }
+    return false
+  }
+
+  // What the shot touched this tick: a grid bubble, the ceiling, or nothing yet.
+  // `descent` shifts the board down, for checking against where the grid will be later.
+  private findContact(shot: ShootingBubble, descent: number): Cell | 'ceiling' | null {
+    const hit = this.checkBubbleCollision(shot, descent)
+    if (hit) return { row: hit.row, col: hit.col }
+    return shot.y - this.BUBBLE_RADIUS < 0 ? 'ceiling' : null
+  }
+
+  // Closest bubble overlapping the shot, if any
+  private checkBubbleCollision(shooting: ShootingBubble, descent: number): Bubble | null {
+    let closest: Bubble | null = null
+    let closestDist = this.BUBBLE_RADIUS * 2
+    for (let row = 0; row < this.bubbles.length; row++) {
+      for (let col = 0; col < this.bubbles[row].length; col++) {
+        const bubble = this.bubbles[row][col]
+        if (bubble && !bubble.isPopping) {
+          const dx = shooting.x - bubble.x
+          const dy = shooting.y - (bubble.y + descent)
+          const dist = Math.sqrt(dx * dx + dy * dy)
+          if (dist < closestDist) {
+            closest = bubble
+            closestDist = dist
+          }
+        }
+      }
+    }
+    return closest
+  }
+
+  private landingCell(shot: ShootingBubble, contact: Cell | 'ceiling', rowOffset: number): Cell | null {
+    return snapCell(
+      this.layout,
+      this.MAX_ROWS,
+      cell => !this.bubbles[cell.row]?.[cell.col],
+      shot.x,
+      shot.y,
+      rowOffset,
+      contact === 'ceiling' ? null : contact
+    )
+  }
+
+  private addBubbleToGrid(shooting: ShootingBubble, contact: Cell | 'ceiling') {
+    const cell = this.landingCell(shooting, contact, this.rowOffset)
+    // Only possible if every reachable cell is full
+    if (!cell) return
+    const { row: closestRow, col: closestCol } = cell
+
+    // Ensure row arrays exist down to the landing row
+    while (this.bubbles.length <= closestRow) {
+      this.bubbles.push([])
+    }
+
+    // Handle power-ups
+    if (shooting.color === 'bomb') {
+      this.countMatchedShot()
+      this.explodeBomb(closestRow, closestCol, shooting)
+      return
+    }
+    if (shooting.color === 'freeze') {
+      this.countMatchedShot()
+      this.activateFreeze()
+      return
+    }
+
+    // Place bubble
+    const placed: Bubble = {
+      x: this.getBubbleX(closestRow, closestCol),
+      y: this.getBubbleY(closestRow),
+      color: shooting.color,
+      row: closestRow,
+      col: closestCol,
+      radius: this.BUBBLE_RADIUS
+    }
+    this.bubbles[closestRow][closestCol] = placed
+    this.emit({ type: 'snap', color: placed.color })
+
+    // A landed rainbow matches as whichever neighboring color makes the biggest cluster
+    const matchColor = placed.color === 'rainbow' ? this.bestRainbowColor(closestRow, closestCol) : placed.color
+
+    // Check for matches
+    const matches = matchColor ? this.findMatches(closestRow, closestCol, matchColor) : []
+    if (matches.length >= 3) {
+      const rainbows = matches.filter(bubble => bubble.color === 'rainbow').length
+      this.countMatchedShot()
+      this.hitBubbles(matches)
+      const dropped = this.dropFloatingBubbles()
+
+      // Matches and drops are scored at face value, and the combo multiplier pays out separately.
+      // Each skill move counts as an extra combo step.
+      const matched = matchPoints(this.scoreTable, matches.length, rainbows)
+      const fell = dropPoints(this.scoreTable, dropped.length)
+      this.awardAt('match', matched, matches)
+      this.awardAt('drop', fell, dropped)
+      const skillMoves = this.awardSkillMoves(shooting, matched + fell, dropped, placed)
+      this.extendCombo(1 + skillMoves)
+      this.award('combo', comboPoints(matched + fell, this.combo), placed.x, placed.y, 0)
+      this.emit({ type: 'match', count: matches.length, combo: this.combo })
+    } else {
+      // A rainbow that didn't pop keeps the color it picked
+      if (matchColor) placed.color = matchColor
+      this.countMiss()
+    }
+  }
+
+  private countMatchedShot() {
+    this.levelMatchedShots++
+    this.runMatchedShots++
+  }
+
+  private bestRainbowColor(row: number, col: number): BubbleColor | null {
+    let best: BubbleColor | null = null
+    let bestSize = 0
+    for (const [r, c] of this.getNeighbors(row, col)) {
+      const neighbor = this.bubbles[r]?.[c]
+      if (!neighbor || neighbor.isPopping || neighbor.chained || !COLORS.includes(neighbor.color)) continue
+      if (neighbor.color === best) continue
+
+      const size = this.findMatches(row, col, neighbor.color).length
+      if (size > bestSize) {
+        best = neighbor.color
+        bestSize = size
+      }
+    }
+    return best
+  }
+
+  private explodeBomb(row: number, col: number, shot: ShootingBubble) {
+    const radius = 2
+    const toExplode: Bubble[] = []
+
+    for (let r = Math.max(0, row - radius); r <= Math.min(this.bubbles.length - 1, row + radius); r++) {
+      for (let c = 0; c < this.bubbles[r].length; c++) {
+        const bubble = this.bubbles[r][c]
+        if (bubble && !bubble.isPopping && bubble.color !== 'stone' && distance({ row, col }, { row: r, col: c }) <= radius) {
+          toExplode.push(bubble)
+        }
+      }
+    }
+
+    this.emit({ type: 'bomb', count: toExplode.length })
+    this.hitBubbles(toExplode)
+    const dropped = this.dropFloatingBubbles()
+
+    // A bomb doesn't extend the combo by itself, only through skill moves, but drops it causes
+    // still pay out at the next combo step
+    const exploded = bombPoints(this.scoreTable, toExplode.length)
+    const fell = dropPoints(this.scoreTable, dropped.length)
+    this.awardAt('bomb', exploded, toExplode)
+    this.awardAt('drop', fell, dropped)
+    const center = cellCenter(this.layout, { row, col }, this.rowOffset)
+    this.extendCombo(this.awardSkillMoves(shot, exploded + fell, dropped, center))
+    this.award('combo', comboPoints(fell, this.combo + 1), center.x, center.y, 0)
+  }
+
+  // Pays out a bank shot on `base` and an avalanche for the dropped bubbles; returns how many of
+  // the two happened
+  private awardSkillMoves(shot: ShootingBubble, base: number, dropped: Bubble[], at: { x: number, y: number }): number {
+    let moves = 0
+    if (shot.bounces > 0) {
+      this.award('bankShot', bankShotPoints(this.scoreTable, base, shot.bounces, shot.distance), at.x, at.y, 0, bankShotCallout(shot.bounces))
+      moves++
+    }
+    const tier = avalancheTier(this.scoreTable, dropped.length)
+    if (tier) {
+      this.awardAt('avalanche', tier.points, dropped, tier.callout)
+      moves++
+    }
+    this.levelSkillMoves += moves
+    return moves
+  }
+
+  private extendCombo(steps: number) {
+    this.combo += steps
+    this.maxCombo = Math.max(this.maxCombo, this.combo)
+    this.levelMaxCombo = Math.max(this.levelMaxCombo, this.combo)
+  }
+
+  private award(kind: ScoreEventKind, points: number, x: number, y: number, count: number, callout?: string) {
+    if (points <= 0) return
+    this.score += points
+    this.levelBreakdown[kind] += points
+    this.emit({ type: 'score', event: { kind, points, x, y, count, callout } })
+    this.updateDifficulty()
+  }
+
+  // Awards points at the middle of a group of bubbles
+  private awardAt(kind: ScoreEventKind, points: number, bubbles: Bubble[], callout?: string) {
+    if (bubbles.length === 0) return
+    const x = bubbles.reduce((sum, bubble) => sum + bubble.x, 0) / bubbles.length
+    const y = bubbles.reduce((sum, bubble) => sum + bubble.y, 0) / bubbles.length
+    this.award(kind, points, x, y, bubbles.length, callout)
+  }
+
+  private activateFreeze() {
+    this.freezeRemaining = Math.min(this.MAX_FREEZE, this.freezeRemaining + this.FREEZE_DURATION)
+    this.emit({ type: 'freeze', seconds: this.freezeRemaining })
+  }
+
+  // Collects the cluster of `color` around a cell. Rainbows on the board count as wildcards,
+  // but the cluster never switches color through them.
+  private findMatches(row: number, col: number, color?: BubbleColor): Bubble[] {
+    const bubble = this.bubbles[row]?.[col]
+    if (!bubble) return []
+    const target = color ?? bubble.color
+    if (!COLORS.includes(target)) return []
+
+    const matches: Bubble[] = []
+    const visited = new Set<string>()
+    const queue: [number, number][] = [[row, col]]
+
+    while (queue.length > 0) {
+      const [r, c] = queue.shift()!
+      const key = `${r},${c}`
+      if (visited.has(key)) continue
+      visited.add(key)
+
+      const current = this.bubbles[r]?.[c]
+      // Chained bubbles sit out of matches until a neighbor pops and frees them
+      if (!current || current.isPopping || current.chained) continue
+
+      if (current.color !== target && current.color !== 'rainbow') continue
+
+      matches.push(current)
+
+      // Check neighbors
+      const neighbors = this.getNeighbors(r, c)
+      for (const [nr, nc] of neighbors) {
+        if (!visited.has(`${nr},${nc}`)) {
+          queue.push([nr, nc])
+        }
+      }
+    }
+
+    return matches
+  }
+
+  private getNeighbors(row: number, col: number): [number, number][] {
+    return neighbors(this.layout, this.MAX_ROWS, { row, col }).map(cell => [cell.row, cell.col])
+  }
+
+  // Applies one hit to each bubble: chains break, armor loses a layer, anything else pops.
+  // Popping a bubble also frees any chained neighbors.
+  private hitBubbles(bubbles: Bubble[]) {
+    const popped: Bubble[] = []
+    for (const bubble of bubbles) {
+      if (bubble.chained) {
+        bubble.chained = false
+      } else if (bubble.hits && bubble.hits > 1) {
+        bubble.hits--
+      } else {
+        popped.push(bubble)
+        // Freeze bubbles on the board go off when they're blown up
+        if (bubble.color === 'freeze') {
+          this.activateFreeze()
+        }
+      }
+    }
+    this.popBubbles(popped)
+
+    for (const bubble of popped) {
+      for (const [r, c] of this.getNeighbors(bubble.row, bubble.col)) {
+        const neighbor = this.bubbles[r]?.[c]
+        if (neighbor?.chained) {
+          neighbor.chained = false
+        }
+      }
+    }
+  }
+
+  private popBubbles(bubbles: Bubble[]) {
+    for (const bubble of bubbles) {
+      bubble.isPopping = true
+      bubble.popProgress = 0
+      if (bubble.tagged) this.taggedFreed++
+    }
+    if (bubbles.length > 0) this.emit({ type: 'bubblesPopped', bubbles })
+  }
+
+  // Takes everything no longer attached to the ceiling off the board; returns what fell.
+  // The fall itself is only drawn, so it has no effect on play.
+  private dropFloatingBubbles(): Bubble[] {
+    const connected = new Set<string>()
+    const queue: [number, number][] = []
+
+    // Start from top row
+    for (let col = 0; col < (this.bubbles[0]?.length || 0); col++) {
+      if (this.bubbles[0][col] && !this.bubbles[0][col]!.isPopping) {
+        queue.push([0, col])
+      }
+    }
+
+    // Chained bubbles are locked in place and hold up whatever hangs from them
+    for (let row = 1; row < this.bubbles.length; row++) {
+      for (let col = 0; col < this.bubbles[row].length; col++) {
+        if (this.bubbles[row][col]?.chained) {
+          queue.push([row, col])
+        }
+      }
+    }
+
+    // BFS to find connected bubbles
+    while (queue.length > 0) {
+      const [r, c] = queue.shift()!
+      const key = `${r},${c}`
+      if (connected.has(key)) continue
+      connected.add(key)
+
+      const neighbors = this.getNeighbors(r, c)
+      for (const [nr, nc] of neighbors) {
+        if (!connected.has(`${nr},${nc}`) && this.bubbles[nr]?.[nc] && !this.bubbles[nr][nc]!.isPopping) {
+          queue.push([nr, nc])
+        }
+      }
+    }
+
+    // Drop unconnected bubbles
+    const dropped: Bubble[] = []
+    for (let row = 0; row < this.bubbles.length; row++) {
+      for (let col = 0; col < this.bubbles[row].length; col++) {
+        const bubble = this.bubbles[row][col]
+        if (bubble && !bubble.isPopping && !connected.has(`${row},${col}`)) {
+          this.bubbles[row][col] = null
+          dropped.push(bubble)
+          if (bubble.tagged) this.taggedFreed++
+        }
+      }
+    }
+    if (dropped.length > 0) this.emit({ type: 'bubblesDropped', bubbles: dropped })
+    return dropped
+  }
+}
@@ -0,0 +1,452 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import BindingsPanel from './BindingsPanel'
+import { COLOR_THEMES, ColorTheme } from './bubbleArt'
+import { InputBindings } from './InputController'
+import { Leaderboard } from './leaderboard'
+import LeaderboardPanel from './LeaderboardPanel'
+import { describeObjective } from './objectives'
+import { SaveData, totalStars } from './progress'
+import { SCORE_LABELS, ScoreEventKind } from './scoring'
+import { GameSettings } from './settings'
+import type { AimAssistLevel, GameCommand, GameEvent, GameMode, GameState, LevelConfig, LevelSummary } from './types'
+
+export interface OverlayView {
+  state: GameState
+  intro: { level: number; config: LevelConfig; mode: GameMode } | null
+  summary: LevelSummary | null
+  result: { mode: GameMode; won: boolean; score: number; maxCombo: number; level: number; rowsPushed: number } | null
+}
+
+export const INITIAL_VIEW: OverlayView = { state: 'menu', intro: null, summary: null, result: null }
+
+export function applyGameEvent(view: OverlayView, event: GameEvent): OverlayView {
+  switch (event.type) {
+    case 'stateChange':
+      return { ...view, state: event.to }
+    case 'levelIntro':
+      return { ...view, intro: { level: event.level, config: event.config, mode: event.mode } }
+    case 'levelComplete':
+      return { ...view, summary: event.summary }
+    case 'gameOver': {
+      const { mode, won, score, maxCombo, level, rowsPushed } = event
+      return { ...view, result: { mode, won, score, maxCombo, level, rowsPushed } }
+    }
+    case 'score':
+    case 'bubblesPopped':
+    case 'bubblesDropped':
+    case 'shot':
+    case 'wallBounce':
+    case 'snap':
+    case 'match':
+    case 'bomb':
+    case 'freeze':
+    case 'lifeLost':
+    case 'pressure':
+    case 'shotUndone':
+    case 'rowsPushed':
+    case 'difficultyUp':
+      return view
+  }
+}
+
+interface GameOverlayProps {
+  view: OverlayView
+  levelCount: number
+  // Puzzle boards, for the puzzle select; it is only offered when they are given
+  puzzles?: LevelConfig[]
+  // Whether endless mode is offered from the menu
+  endless?: boolean
+  seed: number | null
+  settings: GameSettings
+  bindings: InputBindings
+  // Campaign progress; the level select is only offered when it is given
+  progress?: SaveData
+  leaderboard?: Leaderboard
+  // Name to suggest when the finished run made the high-score table, otherwise null
+  nameEntry?: string | null
+  onCommand: (command: GameCommand) => void
+  onSettingsChange: (settings: GameSettings) => void
+  onBindingsChange: (bindings: InputBindings) => void
+  onLeaderboardChange?: (board: Leaderboard) => void
+  onSubmitName?: (name: string) => void
+  onSaveReplay?: () => void
+}
+
+const AIM_ASSIST_LABELS: Record<AimAssistLevel, string> = {
+  easy: 'Easy (full trajectory)',
+  normal: 'Normal (one bounce)',
+  hard: 'Hard (first leg only)',
+  expert: 'Expert (aim line only)'
+}
+
+// Names the overlay for screen readers
+const SCREEN_LABELS: Record<GameState, string> = {
+  menu: 'Main menu',
+  levelIntro: 'Level intro',
+  playing: 'Playing',
+  paused: 'Paused',
+  levelComplete: 'Level complete',
+  settings: 'Settings',
+  won: 'You win',
+  lost: 'Game over'
+}
+
+function starLabel(stars: number): string {
+  return '★'.repeat(stars) + '☆'.repeat(3 - stars)
+}
+
+// Menus and between-level screens, drawn over the canvas for every state except play
+export default function GameOverlay(props: GameOverlayProps) {
+  const { view, onCommand, progress } = props
+  const [showControls, setShowControls] = useState(false)
+  const [showLevelSelect, setShowLevelSelect] = useState(false)
+  const [showPuzzleSelect, setShowPuzzleSelect] = useState(false)
+  const [showLeaderboard, setShowLeaderboard] = useState(false)
+  const [name, setName] = useState('')
+  const rootRef = useRef<HTMLDivElement>(null)
+
+  // Move keyboard focus onto each new screen so it can be used without a pointer
+  useEffect(() => {
+    rootRef.current?.querySelector<HTMLElement>('input, select, button')?.focus()
+  }, [view.state])
+
+  // Leaving settings, with Escape or otherwise, also closes the controls panel
+  useEffect(() => {
+    if (view.state !== 'settings') setShowControls(false)
+  }, [view.state])
+
+  if (view.state === 'playing') return null
+
+  const button = (label: string, command: GameCommand) => (
+    <button key={label} onClick={() => onCommand(command)} style={{ fontSize: 18, padding: '8px 24px', minWidth: 200 }}>
+      {label}
+    </button>
+  )
+
+  const volumeSlider = (label: string, key: 'masterVolume' | 'sfxVolume' | 'musicVolume') => (
+    <label style={{ display: 'flex', gap: 12, alignItems: 'center' }}>
+      <span style={{ minWidth: 130, textAlign: 'right' }}>{label}</span>
+      <input
+        type="range"
+        min={0}
+        max={1}
+        step={0.05}
+        value={props.settings[key]}
+        onChange={e => props.onSettingsChange({ ...props.settings, [key]: Number(e.target.value) })}
+      />
+    </label>
+  )
+
+  const replayButton = props.onSaveReplay && (
+    <button onClick={props.onSaveReplay} style={{ fontSize: 14, padding: '4px 16px' }}>
+      Save replay
+    </button>
+  )
+
+  let content: JSX.Element
+  switch (view.state) {
+    case 'menu':
+      if (props.leaderboard && showLeaderboard) {
+        content = (
+          <LeaderboardPanel
+            board={props.leaderboard}
+            levelCount={props.levelCount}
+            onChange={board => props.onLeaderboardChange?.(board)}
+            onClose={() => setShowLeaderboard(false)}
+          />
+        )
+        break
+      }
+      if (progress && showLevelSelect) {
+        content = (
+          <>
+            <h1 style={{ margin: 0, fontSize: 40 }}>Select Level</h1>
+            <div style={{ display: 'grid', gridTemplateColumns: 'repeat(5, 110px)', gap: 10 }}>
+              {Array.from({ length: props.levelCount }, (_, index) => {
+                const level = index + 1
+                const record = progress.levels[level]
+                const locked = level > progress.unlocked
+                return (
+                  <button
+                    key={level}
+                    disabled={locked}
+                    onClick={() => {
+                      setShowLevelSelect(false)
+                      onCommand({ type: 'selectLevel', level })
+                    }}
+                    style={{ height: 80, display: 'flex', flexDirection: 'column', justifyContent: 'center', alignItems: 'center', gap: 4 }}
+                  >
+                    <strong style={{ fontSize: 22 }}>{locked ? '🔒' : level}</strong>
+                    {!locked && <span style={{ color: '#E1A100' }}>{starLabel(record?.stars ?? 0)}</span>}
+                    {record && <span style={{ fontSize: 12 }}>Best {record.bestScore}</span>}
+                  </button>
+                )
+              })}
+            </div>
+            <p style={{ margin: 0 }}>
+              ★ {totalStars(progress)} / {props.levelCount * 3} · Levels cleared {progress.stats.levelsCompleted} · Games {progress.stats.gamesPlayed} · Best combo x{progress.stats.bestCombo}
+            </p>
+            <button onClick={() => setShowLevelSelect(false)} style={{ fontSize: 18, padding: '8px 24px', minWidth: 200 }}>
+              Back
+            </button>
+          </>
+        )
+        break
+      }
+      if (props.puzzles && showPuzzleSelect) {
+        content = (
+          <>
+            <h1 style={{ margin: 0, fontSize: 40 }}>Select Puzzle</h1>
+            <div style={{ display: 'grid', gridTemplateColumns: 'repeat(5, 110px)', gap: 10 }}>
+              {props.puzzles.map((puzzle, index) => (
+                <button
+                  key={index}
+                  onClick={() => {
+                    setShowPuzzleSelect(false)
+                    onCommand({ type: 'selectPuzzle', puzzle: index + 1 })
+                  }}
+                  style={{ height: 80, display: 'flex', flexDirection: 'column', justifyContent: 'center', alignItems: 'center', gap: 4 }}
+                >
+                  <strong style={{ fontSize: 22 }}>{index + 1}</strong>
+                  {puzzle.name && <span style={{ fontSize: 12 }}>{puzzle.name}</span>}
+                </button>
+              ))}
+            </div>
+            <button onClick={() => setShowPuzzleSelect(false)} style={{ fontSize: 18, padding: '8px 24px', minWidth: 200 }}>
+              Back
+            </button>
+          </>
+        )
+        break
+      }
+      content = (
+        <>
+          <h1 style={{ margin: 0, fontSize: 60 }}>Color Burst</h1>
+          <h2 style={{ margin: 0 }}>Bubble Shooter</h2>
+          <p>{props.levelCount} Levels of Bubble-Popping Fun!</p>
+          {progress && progress.unlocked > 1
+            ? button(`Continue (Level ${progress.unlocked})`, { type: 'selectLevel', level: progress.unlocked })
+            : button('Play', { type: 'confirm' })}
+          {progress && (
+            <button onClick={() => setShowLevelSelect(true)} style={{ fontSize: 18, padding: '8px 24px', minWidth: 200 }}>
+              Level select
+            </button>
+          )}
+          {props.leaderboard && (
+            <button onClick={() => setShowLeaderboard(true)} style={{ fontSize: 18, padding: '8px 24px', minWidth: 200 }}>
+              High scores
+            </button>
+          )}
+          {props.endless && button('Endless', { type: 'startEndless' })}
+          {progress && progress.endless.runs > 0 && (
+            <p style={{ margin: 0 }}>
+              Endless best {progress.endless.bestScore} · Level {progress.endless.bestLevel} · {progress.endless.mostRows} rows
+            </p>
+          )}
+          {props.puzzles && (
+            <button onClick={() => setShowPuzzleSelect(true)} style={{ fontSize: 18, padding: '8px 24px', minWidth: 200 }}>
+              Puzzles
+            </button>
+          )}
+          {button('Settings', { type: 'openSettings' })}
+        </>
+      )
+      break
+
+    case 'levelIntro': {
+      const config = view.intro?.config
+      const mode = view.intro?.mode
+      const heading = mode === 'endless' ? 'Endless' : `${mode === 'puzzle' ? 'Puzzle' : 'Level'} ${view.intro?.level}`
+      const shotLimit = config && (config.shotLimit ?? config.shotSequence?.length)
+      content = (
+        <>
+          <h1 style={{ margin: 0, fontSize: 50 }}>{heading}</h1>
+          {config?.name && <h2 style={{ margin: 0 }}>{config.name}</h2>}
+          {config && (
+            <ul style={{ listStyle: 'none', padding: 0, margin: 0, lineHeight: 1.8 }}>
+              {mode === 'endless' && <li>New rows push in over time, and sooner when shots miss</li>}
+              {mode === 'endless' && <li>More colors and faster rows as your score climbs</li>}
+              {config.objectives?.map((objective, index) => <li key={index}>★ {describeObjective(objective)}</li>)}
+              {shotLimit !== undefined && <li>🎯 {shotLimit} shots</li>}
+              {mode === 'puzzle' && <li>Undo takes back the last shot</li>}
+              <li>{config.colors} colors</li>
+              {config.timeLimit !== undefined && <li>⏱ {config.timeLimit} second time limit</li>}
+              {config.swaps !== undefined && <li>⇄ {config.swaps} swaps</li>}
+              {config.hasPowerUps && <li>Power-ups appear in the queue</li>}
+              {config.hasObstacles && <li>Watch out for stones, armor and chains</li>}
+            </ul>
+          )}
+          {button('Start', { type: 'confirm' })}
+        </>
+      )
+      break
+    }
+
+    case 'paused':
+      content = (
+        <>
+          <h1 style={{ margin: 0, fontSize: 50 }}>Paused</h1>
+          {button('Resume', { type: 'resume' })}
+          {button('Settings', { type: 'openSettings' })}
+          {button('Quit to menu', { type: 'quit' })}
+          {replayButton}
+        </>
+      )
+      break
+
+    case 'settings':
+      content = (
+        <>
+          <h1 style={{ margin: 0, fontSize: 40 }}>Settings</h1>
+          <label>
+            Aim assist{' '}
+            <select
+              value={props.settings.aimAssist}
+              onChange={e => props.onSettingsChange({ ...props.settings, aimAssist: e.target.value as AimAssistLevel })}
+            >
+              {(Object.keys(AIM_ASSIST_LABELS) as AimAssistLevel[]).map(level => (
+                <option key={level} value={level}>{AIM_ASSIST_LABELS[level]}</option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Colors{' '}
+            <select
+              value={props.settings.colorTheme}
+              onChange={e => props.onSettingsChange({ ...props.settings, colorTheme: e.target.value as ColorTheme })}
+            >
+              {(Object.keys(COLOR_THEMES) as ColorTheme[]).map(theme => (
+                <option key={theme} value={theme}>{COLOR_THEMES[theme].label}</option>
+              ))}
+            </select>
+          </label>
+          <label>
+            <input
+              type="checkbox"
+              checked={props.settings.glyphs}
+              onChange={e => props.onSettingsChange({ ...props.settings, glyphs: e.target.checked })}
+            />{' '}
+            Shape symbols on bubbles
+          </label>
+          {volumeSlider('Master volume', 'masterVolume')}
+          {volumeSlider('Effects', 'sfxVolume')}
+          {volumeSlider('Music', 'musicVolume')}
+          <label>
+            <input
+              type="checkbox"
+              checked={props.settings.muted}
+              onChange={e => props.onSettingsChange({ ...props.settings, muted: e.target.checked })}
+            />{' '}
+            Mute
+          </label>
+          <button onClick={() => setShowControls(true)} style={{ fontSize: 18, padding: '8px 24px', minWidth: 200 }}>
+            Controls…
+          </button>
+          {button('Back', { type: 'closeSettings' })}
+          {showControls && (
+            <BindingsPanel bindings={props.bindings} onChange={props.onBindingsChange} onClose={() => setShowControls(false)} />
+          )}
+        </>
+      )
+      break
+
+    case 'levelComplete': {
+      const summary = view.summary
+      content = (
+        <>
+          <h1 style={{ margin: 0, fontSize: 50, color: '#2ED573' }}>
+            {summary?.mode === 'puzzle' ? `Puzzle ${summary.level} Solved!` : `Level ${summary?.level} Complete!`}
+          </h1>
+          {summary && <div style={{ fontSize: 48, color: '#FFD700' }}>{starLabel(summary.stars)}</div>}
+          {summary && (
+            <table style={{ fontSize: 20, borderSpacing: '24px 6px' }}>
+              <tbody>
+                {(Object.keys(SCORE_LABELS) as ScoreEventKind[])
+                  .filter(kind => summary.breakdown[kind] > 0)
+                  .map(kind => (
+                    <tr key={kind}><td>{SCORE_LABELS[kind]}</td><td style={{ textAlign: 'right' }}>+{summary.breakdown[kind]}</td></tr>
+                  ))}
+                <tr style={{ fontWeight: 'bold' }}><td>Level score</td><td style={{ textAlign: 'right' }}>{summary.levelScore}</td></tr>
+                <tr><td>Star target</td><td style={{ textAlign: 'right' }}>{summary.targetScore}</td></tr>
+                <tr><td>Shots (par {summary.parShots})</td><td style={{ textAlign: 'right' }}>{summary.shots}</td></tr>
+                <tr><td>Skill moves (star at {summary.skillTarget})</td><td style={{ textAlign: 'right' }}>{summary.skillMoves}</td></tr>
+                <tr><td>Best combo</td><td style={{ textAlign: 'right' }}>x{summary.maxCombo}</td></tr>
+                <tr style={{ fontWeight: 'bold' }}><td>Total score</td><td style={{ textAlign: 'right' }}>{summary.totalScore}</td></tr>
+              </tbody>
+            </table>
+          )}
+          {button(summary?.final ? 'Finish' : 'Next level', { type: 'confirm' })}
+        </>
+      )
+      break
+    }
+
+    case 'won':
+    case 'lost':
+      content = (
+        <>
+          {view.state === 'won' ? (
+            <>
+              <h1 style={{ margin: 0, fontSize: 50, color: '#2ED573' }}>🎉 YOU WON! 🎉</h1>
+              <h2 style={{ margin: 0 }}>
+                {view.result?.mode === 'puzzle' ? 'All Puzzles Solved!' : `All ${props.levelCount} Levels Complete!`}
+              </h2>
+            </>
+          ) : (
+            <h1 style={{ margin: 0, fontSize: 50, color: '#FF4757' }}>Game Over</h1>
+          )}
+          <p style={{ fontSize: 24, fontWeight: 'bold', margin: 0 }}>Final Score: {view.result?.score ?? 0}</p>
+          {view.result?.mode === 'endless' && (
+            <p style={{ fontSize: 24, fontWeight: 'bold', margin: 0 }}>
+              Reached level {view.result.level} · {view.result.rowsPushed} rows pushed
+            </p>
+          )}
+          <p style={{ fontSize: 24, fontWeight: 'bold', margin: 0 }}>Max Combo: x{view.result?.maxCombo ?? 0}</p>
+          {props.nameEntry != null && (
+            <form
+              onSubmit={e => {
+                e.preventDefault()
+                props.onSubmitName?.(name || props.nameEntry!)
+                setName('')
+              }}
+              style={{ display: 'flex', gap: 6, alignItems: 'center' }}
+            >
+              <label>
+                New high score! Name{' '}
+                <input value={name} placeholder={props.nameEntry} maxLength={16} onChange={e => setName(e.target.value)} autoFocus />
+              </label>
+              <button type="submit">Save</button>
+            </form>
+          )}
+          {button('Main menu', { type: 'confirm' })}
+          {replayButton}
+        </>
+      )
+      break
+  }
+
+  return (
+    <div ref={rootRef} role="dialog" aria-label={SCREEN_LABELS[view.state]} style={{
+      position: 'absolute',
+      inset: 0,
+      display: 'flex',
+      flexDirection: 'column',
+      justifyContent: 'center',
+      alignItems: 'center',
+      gap: 16,
+      borderRadius: '10px',
+      background: view.state === 'menu' ? 'transparent' : 'rgba(0, 0, 0, 0.7)',
+      color: '#ffffff',
+      fontFamily: 'Arial, sans-serif',
+      lineHeight: 'normal',
+      textAlign: 'center'
+    }}>
+      {content}
+      {view.state === 'menu' && props.seed !== null && (
+        <span style={{ position: 'absolute', top: 8, right: 12, fontSize: 12, opacity: 0.6 }}>Seed: {props.seed}</span>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,212 @@
+import { isIntegerArray, isRecord, isStringArray } from './guards'
+
+export type GameAction = 'aimLeft' | 'aimRight' | 'fineAim' | 'fire' | 'swap' | 'undo' | 'pause' | 'confirm'
+
+export const GAME_ACTIONS: GameAction[] = ['aimLeft', 'aimRight', 'fineAim', 'fire', 'swap', 'undo', 'pause', 'confirm']
+
+export const ACTION_LABELS: Record<GameAction, string> = {
+  aimLeft: 'Aim left',
+  aimRight: 'Aim right',
+  fineAim: 'Fine aim (hold)',
+  fire: 'Fire',
+  swap: 'Swap bubble',
+  undo: 'Undo shot (puzzles)',
+  pause: 'Pause',
+  confirm: 'Confirm'
+}
+
+export interface InputBindings {
+  // KeyboardEvent.code values
+  keyboard: Record<GameAction, string[]>
+  // Button indices in the standard gamepad mapping
+  gamepad: Record<GameAction, number[]>
+}
+
+export const DEFAULT_BINDINGS: InputBindings = {
+  keyboard: {
+    aimLeft: ['ArrowLeft', 'KeyA'],
+    aimRight: ['ArrowRight', 'KeyD'],
+    fineAim: ['ShiftLeft', 'ShiftRight'],
+    fire: ['Space', 'ArrowUp', 'KeyW'],
+    swap: ['KeyS', 'ArrowDown'],
+    undo: ['KeyZ', 'Backspace'],
+    pause: ['Escape', 'KeyP'],
+    confirm: ['Enter']
+  },
+  gamepad: {
+    aimLeft: [14],
+    aimRight: [15],
+    fineAim: [4, 5],
+    fire: [0, 7],
+    swap: [2],
+    undo: [1],
+    pause: [9],
+    confirm: [3]
+  }
+}
+
+// Actions that happen once per press; the rest are read as held state every frame
+const DISCRETE_ACTIONS: GameAction[] = ['fire', 'swap', 'undo', 'pause', 'confirm']
+
+// Inputs that keys don't type into
+const NON_TEXT_INPUTS = ['checkbox', 'radio', 'range']
+
+const STORAGE_KEY = 'colorBurst.bindings'
+const STICK_DEADZONE = 0.25
+
+export function loadBindings(): InputBindings {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY)
+    if (!raw) return DEFAULT_BINDINGS
+    const stored: unknown = JSON.parse(raw)
+    if (!isRecord(stored)) return DEFAULT_BINDINGS
+    const keyboard = isRecord(stored.keyboard) ? stored.keyboard : {}
+    const gamepad = isRecord(stored.gamepad) ? stored.gamepad : {}
+
+    // Actions added since the bindings were saved, or stored in a shape we can't use, keep their defaults
+    const bindings: InputBindings = { keyboard: { ...DEFAULT_BINDINGS.keyboard }, gamepad: { ...DEFAULT_BINDINGS.gamepad } }
+    for (const action of GAME_ACTIONS) {
+      const keys = keyboard[action]
+      const buttons = gamepad[action]
+      if (isStringArray(keys)) bindings.keyboard[action] = keys
+      if (isIntegerArray(buttons)) bindings.gamepad[action] = buttons
+    }
+    return bindings
+  } catch {
+    return DEFAULT_BINDINGS
+  }
+}
+
+export function saveBindings(bindings: InputBindings) {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings))
+}
+
+export function keyLabel(code: string): string {
+  if (code.startsWith('Key')) return code.slice(3)
+  if (code.startsWith('Digit')) return code.slice(5)
+  if (code.startsWith('Arrow')) return `${code.slice(5)} arrow`
+  return code.replace(/(Left|Right)$/, ' $1').trim()
+}
+
+export function gamepadButtonLabel(index: number): string {
+  const names = ['A', 'B', 'X', 'Y', 'LB', 'RB', 'LT', 'RT', 'Back', 'Start', 'L3', 'R3', 'D-pad up', 'D-pad down', 'D-pad left', 'D-pad right']
+  return names[index] ?? `Button ${index}`
+}
+
+export interface InputState {
+  // -1 when aiming left, 1 when aiming right, 0 otherwise
+  aim: number
+  fine: boolean
+  // Left stick direction when pushed past the deadzone
+  stick: { x: number; y: number } | null
+}
+
+// Turns keyboard and gamepad input into game actions. Discrete actions are reported through
+// the callback as they happen; held actions and the analog stick are read with poll().
+export default class InputController {
+  private bindings: InputBindings
+  private onAction: (action: GameAction) => void
+  private heldKeys = new Set<string>()
+  private previousButtons: boolean[] = []
+  private attached: boolean = false
+
+  constructor(bindings: InputBindings, onAction: (action: GameAction) => void) {
+    this.bindings = bindings
+    this.onAction = onAction
+  }
+
+  setBindings(bindings: InputBindings) {
+    this.bindings = bindings
+  }
+
+  attach() {
+    if (this.attached) return
+    window.addEventListener('keydown', this.handleKeyDown)
+    window.addEventListener('keyup', this.handleKeyUp)
+    window.addEventListener('blur', this.handleBlur)
+    this.attached = true
+  }
+
+  detach() {
+    window.removeEventListener('keydown', this.handleKeyDown)
+    window.removeEventListener('keyup', this.handleKeyUp)
+    window.removeEventListener('blur', this.handleBlur)
+    this.heldKeys.clear()
+    this.attached = false
+  }
+
+  poll(): InputState {
+    let left = this.isKeyHeld('aimLeft')
+    let right = this.isKeyHeld('aimRight')
+    let fine = this.isKeyHeld('fineAim')
+    let stick: InputState['stick'] = null
+
+    const pad = this.activeGamepad()
+    if (pad) {
+      const pressed = pad.buttons.map(button => button.pressed)
+      const isDown = (action: GameAction) => this.bindings.gamepad[action].some(index => pressed[index])
+
+      left = left || isDown('aimLeft')
+      right = right || isDown('aimRight')
+      fine = fine || isDown('fineAim')
+
+      for (const action of DISCRETE_ACTIONS) {
+        const justPressed = this.bindings.gamepad[action].some(index => pressed[index] && !this.previousButtons[index])
+        if (justPressed) this.onAction(action)
+      }
+      this.previousButtons = pressed
+
+      const x = pad.axes[0] ?? 0
+      const y = pad.axes[1] ?? 0
+      if (Math.hypot(x, y) > STICK_DEADZONE) {
+        stick = { x, y }
+      }
+    }
+
+    return { aim: (right ? 1 : 0) - (left ? 1 : 0), fine, stick }
+  }
+
+  private activeGamepad(): Gamepad | null {
+    if (typeof navigator === 'undefined' || !navigator.getGamepads) return null
+    for (const pad of navigator.getGamepads()) {
+      if (pad && pad.connected) return pad
+    }
+    return null
+  }
+
+  private isKeyHeld(action: GameAction): boolean {
+    return this.bindings.keyboard[action].some(code => this.heldKeys.has(code))
+  }
+
+  private handleKeyDown = (e: KeyboardEvent) => {
+    // Leave typing in text fields alone
+    const typing = e.target instanceof HTMLTextAreaElement ||
+      (e.target instanceof HTMLInputElement && !NON_TEXT_INPUTS.includes(e.target.type))
+    if (typing) return
+    // Let focused controls work as usual, but keep the pause keys working on overlay screens,
+    // where a control always has focus
+    const onControl = e.target instanceof HTMLButtonElement || e.target instanceof HTMLSelectElement ||
+      e.target instanceof HTMLInputElement
+    if (onControl && !this.bindings.keyboard.pause.includes(e.code)) return
+
+    const bound = GAME_ACTIONS.some(action => this.bindings.keyboard[action].includes(e.code))
+    if (!bound) return
+    e.preventDefault()
+
+    this.heldKeys.add(e.code)
+    if (e.repeat) return
+    for (const action of onControl ? ['pause' as const] : DISCRETE_ACTIONS) {
+      if (this.bindings.keyboard[action].includes(e.code)) {
+        this.onAction(action)
+      }
+    }
+  }
+
+  private handleKeyUp = (e: KeyboardEvent) => {
+    this.heldKeys.delete(e.code)
+  }
+
+  private handleBlur = () => {
+    this.heldKeys.clear()
+  }
+}
@@ -0,0 +1,121 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import {
+  downloadLeaderboard,
+  Leaderboard,
+  LeaderboardMetric,
+  mergeLeaderboards,
+  METRIC_LABELS,
+  parseLeaderboard,
+  sortEntries
+} from './leaderboard'
+
+// Table value for the endless runs
+const ENDLESS = -1
+
+interface LeaderboardPanelProps {
+  board: Leaderboard
+  levelCount: number
+  onChange: (board: Leaderboard) => void
+  onClose: () => void
+}
+
+export default function LeaderboardPanel({ board, levelCount, onChange, onClose }: LeaderboardPanelProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  // 0 shows whole runs, anything else above 0 that level's table
+  const [table, setTable] = useState(0)
+  const [metric, setMetric] = useState<LeaderboardMetric>('score')
+  const [message, setMessage] = useState<string | null>(null)
+
+  const runTable = table === 0 || table === ENDLESS
+  const shown = table === 0 ? board.runs : table === ENDLESS ? board.endless : board.levels[table] ?? []
+  const entries = sortEntries(shown, metric)
+
+  const importFile = async (file: File) => {
+    try {
+      onChange(mergeLeaderboards(board, parseLeaderboard(await file.text())))
+      setMessage(`Imported ${file.name}`)
+    } catch (e) {
+      setMessage(`${file.name}: ${(e as Error).message}`)
+    }
+  }
+
+  return (
+    <>
+      <h1 style={{ margin: 0, fontSize: 40 }}>High Scores</h1>
+      <div style={{ display: 'flex', gap: 12 }}>
+        <select value={table} onChange={e => setTable(Number(e.target.value))}>
+          <option value={0}>Whole runs</option>
+          <option value={ENDLESS}>Endless</option>
+          {Array.from({ length: levelCount }, (_, index) => (
+            <option key={index + 1} value={index + 1}>Level {index + 1}</option>
+          ))}
+        </select>
+        <label>
+          Sort by{' '}
+          <select value={metric} onChange={e => setMetric(e.target.value as LeaderboardMetric)}>
+            {(Object.keys(METRIC_LABELS) as LeaderboardMetric[]).map(key => (
+              <option key={key} value={key}>{METRIC_LABELS[key]}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {entries.length === 0 ? (
+        <p style={{ opacity: 0.7 }}>No scores yet.</p>
+      ) : (
+        <table style={{ borderSpacing: '16px 4px', fontSize: 16 }}>
+          <thead>
+            <tr>
+              <th>#</th>
+              <th style={{ textAlign: 'left' }}>Name</th>
+              <th>Score</th>
+              {runTable && <th>Level</th>}
+              {table === ENDLESS && <th>Rows</th>}
+              <th>Combo</th>
+              <th>Accuracy</th>
+              <th>Date</th>
+              <th>Seed</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map((entry, index) => (
+              <tr key={`${entry.runId}:${entry.level}:${entry.score}`}>
+                <td>{index + 1}</td>
+                <td style={{ textAlign: 'left' }}>{entry.name}</td>
+                <td>{entry.score}</td>
+                {runTable && <td>{entry.level}</td>}
+                {table === ENDLESS && <td>{entry.rows ?? 0}</td>}
+                <td>x{entry.maxCombo}</td>
+                <td>{Math.round(entry.accuracy * 100)}%</td>
+                <td>{new Date(entry.date).toLocaleDateString()}</td>
+                <td>
+                  <a href={`/?seed=${entry.seed}`} style={{ color: '#ffffff' }}>{entry.seed}</a>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {message && <p style={{ margin: 0, color: '#FFD1D1' }}>{message}</p>}
+      <div style={{ display: 'flex', gap: 6 }}>
+        <button onClick={() => downloadLeaderboard(board)}>Export JSON</button>
+        <button onClick={() => fileInputRef.current?.click()}>Import JSON</button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          style={{ display: 'none' }}
+          onChange={e => {
+            const file = e.target.files?.[0]
+            if (file) importFile(file)
+            e.target.value = ''
+          }}
+        />
+        <button onClick={onClose}>Back</button>
+      </div>
+    </>
+  )
+}
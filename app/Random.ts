@@ -0,0 +1,55 @@
+// Small seedable PRNG (mulberry32) so boards and shot queues can be reproduced from a seed
+export default class Random {
+  private state: number
+
+  constructor(seed: number) {
+    this.state = seed >>> 0
+  }
+
+  // Float in [0, 1)
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0
+    let t = this.state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+
+  int(max: number): number {
+    return Math.floor(this.next() * max)
+  }
+
+  chance(probability: number): boolean {
+    return this.next() < probability
+  }
+
+  pick<T>(items: readonly T[]): T {
+    return items[this.int(items.length)]
+  }
+}
+
+export function hashString(value: string): number {
+  // FNV-1a
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+// Mixes a run seed with labels so each level and stream gets an independent sequence
+export function deriveSeed(seed: number, ...parts: (string | number)[]): number {
+  return hashString(`${seed >>> 0}:${parts.join(':')}`)
+}
+
+export function parseSeed(value: string): number | null {
+  const trimmed = value.trim()
+  if (!trimmed) return null
+  if (/^\d+$/.test(trimmed)) return Number(trimmed) >>> 0
+  return hashString(trimmed)
+}
+
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0
+}
@@ -0,0 +1,124 @@
+'use client'
+
+import { Fragment, useEffect, useRef, useState } from 'react'
+import { ACTION_LABELS, GAME_ACTIONS, InputBindings, keyLabel } from './InputController'
+import type { BubbleColor, GameState, GameStatus } from './types'
+
+// Everything the canvas shows, as text for screen readers. Changes are announced through a
+// polite live region; the full status stays in the page for reading at any time.
+
+interface ScreenReaderStatusProps {
+  getStatus: () => GameStatus | null
+  bindings: InputBindings
+}
+
+// How often the game is checked for changes; quick enough to keep up, slow enough not to chatter
+const POLL_INTERVAL = 500
+
+const VISUALLY_HIDDEN: React.CSSProperties = {
+  position: 'absolute',
+  width: 1,
+  height: 1,
+  padding: 0,
+  margin: -1,
+  overflow: 'hidden',
+  clip: 'rect(0, 0, 0, 0)',
+  whiteSpace: 'nowrap',
+  border: 0
+}
+
+const STATE_ANNOUNCEMENTS: Partial<Record<GameState, string>> = {
+  playing: 'Playing',
+  paused: 'Paused',
+  levelComplete: 'Level complete',
+  won: 'You win!',
+  lost: 'Game over'
+}
+
+function colorName(color: BubbleColor | null): string {
+  if (!color) return 'none'
+  if (color === 'freeze') return 'freeze power-up'
+  return color
+}
+
+// What changed since the last check, as one sentence per change
+function describeChanges(previous: GameStatus | null, status: GameStatus): string {
+  const parts: string[] = []
+  if (!previous || previous.state !== status.state) {
+    const announcement = STATE_ANNOUNCEMENTS[status.state]
+    if (announcement) parts.push(announcement)
+  }
+  if (status.state === 'menu') return parts.join('. ')
+
+  // Endless runs have no lives to count, and the push countdown restarts whenever rows come in
+  if (!previous || previous.level !== status.level) {
+    parts.push(status.pushRemaining !== null ? `Level ${status.level}` : `Level ${status.level}, ${status.lives} lives`)
+  } else if (status.pushRemaining !== null && previous.pushRemaining !== null && status.pushRemaining > previous.pushRemaining) {
+    parts.push('New rows pushed in')
+  } else if (status.lives < previous.lives) {
+    parts.push(`Life lost, ${status.lives} left`)
+  }
+  if (previous && status.score !== previous.score) parts.push(`Score ${status.score}`)
+  if (status.shotsRemaining !== null && (!previous || previous.shotsRemaining !== status.shotsRemaining)) {
+    parts.push(`${status.shotsRemaining} shots left`)
+  }
+  // Progress labels change with every pop, so only objectives being met are read out
+  status.objectives.forEach((objective, i) => {
+    if (objective.done && previous && previous.level === status.level && previous.objectives[i] && !previous.objectives[i].done) {
+      parts.push(`Objective met: ${objective.label}`)
+    }
+  })
+  if (status.combo > 1 && (!previous || status.combo > previous.combo)) parts.push(`Combo x${status.combo}`)
+  if (!previous || previous.currentBubble !== status.currentBubble || previous.nextBubble !== status.nextBubble) {
+    parts.push(`Current bubble ${colorName(status.currentBubble)}, next ${colorName(status.nextBubble)}`)
+  }
+  return parts.join('. ')
+}
+
+export default function ScreenReaderStatus({ getStatus, bindings }: ScreenReaderStatusProps) {
+  const [status, setStatus] = useState<GameStatus | null>(null)
+  const [announcement, setAnnouncement] = useState('')
+  const previousRef = useRef<GameStatus | null>(null)
+
+  useEffect(() => {
+    const interval = window.setInterval(() => {
+      const next = getStatus()
+      if (!next) return
+      const message = describeChanges(previousRef.current, next)
+      previousRef.current = next
+      setStatus(next)
+      if (message) setAnnouncement(message)
+    }, POLL_INTERVAL)
+    return () => window.clearInterval(interval)
+  }, [getStatus])
+
+  const controls = GAME_ACTIONS
+    .filter(action => bindings.keyboard[action].length > 0)
+    .map(action => `${bindings.keyboard[action].map(keyLabel).join(' or ')} to ${ACTION_LABELS[action].toLowerCase()}`)
+    .join(', ')
+
+  return (
+    <div style={VISUALLY_HIDDEN}>
+      <p>Keyboard controls: {controls}.</p>
+      {status && status.state !== 'menu' && (
+        <dl>
+          <dt>Level</dt><dd>{status.level}</dd>
+          <dt>Score</dt><dd>{status.score}</dd>
+          {status.pushRemaining === null
+            ? <><dt>Lives</dt><dd>{status.lives}</dd></>
+            : <><dt>Next rows</dt><dd>in {Math.ceil(status.pushRemaining)} seconds or {status.missesRemaining} missed shots</dd></>}
+          <dt>Combo</dt><dd>x{Math.max(1, status.combo)}</dd>
+          <dt>Current bubble</dt><dd>{colorName(status.currentBubble)}</dd>
+          <dt>Next bubble</dt><dd>{colorName(status.nextBubble)}</dd>
+          {status.swapsRemaining !== null && <><dt>Swaps left</dt><dd>{status.swapsRemaining}</dd></>}
+          {status.timeRemaining !== null && <><dt>Time left</dt><dd>{Math.ceil(status.timeRemaining)} seconds</dd></>}
+          {status.shotsRemaining !== null && <><dt>Shots left</dt><dd>{status.shotsRemaining}</dd></>}
+          {status.objectives.map((objective, i) => (
+            <Fragment key={i}><dt>Objective</dt><dd>{objective.label}{objective.done ? ', done' : ''}</dd></Fragment>
+          ))}
+        </dl>
+      )}
+      <div role="status" aria-live="polite" aria-atomic="true">{announcement}</div>
+    </div>
+  )
+}
@@ -0,0 +1,275 @@
+import type { GameEvent, GameState } from './types'
+
+// Every sound is synthesized with the Web Audio API, so there are no files to load. Sounds are
+// driven by engine events; the music runs on its own scheduler against the audio clock.
+
+export interface AudioSettings {
+  // 0 to 1
+  masterVolume: number
+  sfxVolume: number
+  musicVolume: number
+  muted: boolean
+}
+
+type Wave = OscillatorType
+
+interface ToneOptions {
+  type?: Wave
+  volume?: number
+  // Glide to this frequency over the tone
+  slideTo?: number
+  // Seconds from now
+  delay?: number
+}
+
+// A minor, F, C, G: one chord per bar of the music loop
+const CHORDS = [
+  [220, 261.63, 329.63],
+  [174.61, 220, 261.63],
+  [130.81, 164.81, 196],
+  [196, 246.94, 293.66]
+]
+const STEPS_PER_BAR = 8
+const FREEZE_CHIME = [1318.5, 1568, 2093]
+// Music speeds up as the board closes in on the loss line, and with each endless difficulty level
+const MUSIC_BASE_TEMPO = 90
+const MUSIC_TEMPO_AT_LINE = 70
+const MUSIC_TEMPO_PER_LEVEL = 8
+// How far ahead the music scheduler queues notes, and how often it wakes up
+const SCHEDULE_AHEAD = 0.1
+const SCHEDULER_INTERVAL = 25
+
+export default class SoundSystem {
+  private context: AudioContext | null = null
+  private master: GainNode | null = null
+  private sfx: GainNode | null = null
+  private music: GainNode | null = null
+  private noiseBuffer: AudioBuffer | null = null
+  private settings: AudioSettings
+  private attached: boolean = false
+
+  private tempo: number = MUSIC_BASE_TEMPO
+  private pressure: number = 0
+  private difficulty: number = 1
+  private musicTimer: number | null = null
+  private nextNoteTime: number = 0
+  private musicStep: number = 0
+  private state: GameState = 'menu'
+
+  constructor(settings: AudioSettings) {
+    this.settings = settings
+  }
+
+  // Browsers only allow audio once the player has interacted with the page
+  attach() {
+    if (this.attached) return
+    window.addEventListener('pointerdown', this.unlock)
+    window.addEventListener('keydown', this.unlock)
+    this.attached = true
+  }
+
+  detach() {
+    window.removeEventListener('pointerdown', this.unlock)
+    window.removeEventListener('keydown', this.unlock)
+    this.attached = false
+    this.stopMusic()
+    this.context?.close()
+    this.context = null
+  }
+
+  setSettings(settings: AudioSettings) {
+    this.settings = settings
+    this.applyVolumes()
+  }
+
+  handleEvent = (event: GameEvent) => {
+    switch (event.type) {
+      case 'stateChange':
+        this.state = event.to
+        if (event.to === 'playing') this.startMusic()
+        else this.stopMusic()
+        break
+      case 'levelIntro':
+        this.difficulty = 1
+        this.updateTempo()
+        break
+      case 'pressure':
+        this.pressure = event.level
+        this.updateTempo()
+        break
+      case 'difficultyUp':
+        this.difficulty = event.level
+        this.updateTempo()
+        this.arpeggio([392, 523.25, 659.25], 0.08, 0.25)
+        break
+      case 'rowsPushed':
+        this.tone(110, 0.35, { type: 'sawtooth', volume: 0.15, slideTo: 70 })
+        this.noise(0.3, 0.15, 600, 100)
+        break
+      case 'shot':
+        this.tone(620, 0.08, { type: 'square', volume: 0.12, slideTo: 320 })
+        break
+      case 'wallBounce':
+        this.tone(240, 0.05, { type: 'triangle', volume: 0.2, slideTo: 180 })
+        break
+      case 'snap':
+        this.tone(330, 0.04, { type: 'sine', volume: 0.2 })
+        this.noise(0.03, 0.08, 3000, 1500)
+        break
+      case 'match': {
+        // Two semitones higher per combo step, up to an octave
+        const pitch = 523.25 * Math.pow(2, Math.min(12, (event.combo - 1) * 2) / 12)
+        this.tone(pitch, 0.12, { type: 'sine', volume: 0.3, slideTo: pitch * 1.5 })
+        this.tone(pitch * 2, 0.08, { type: 'triangle', volume: 0.1, delay: 0.02 })
+        break
+      }
+      case 'bubblesDropped':
+        this.noise(0.15, 0.1, 1200, 400)
+        break
+      case 'score':
+        if (event.event.kind === 'avalanche') {
+          this.noise(0.8, 0.35, 2000, 150)
+          this.tone(70, 0.8, { type: 'sine', volume: 0.4, slideTo: 40 })
+        }
+        break
+      case 'bomb':
+        this.noise(0.5, 0.5, 1200, 80)
+        this.tone(90, 0.4, { type: 'sine', volume: 0.5, slideTo: 30 })
+        break
+      case 'freeze':
+        FREEZE_CHIME.forEach((pitch, i) => this.tone(pitch, 0.25, { type: 'triangle', volume: 0.12, delay: i * 0.06 }))
+        break
+      case 'lifeLost':
+        this.tone(400, 0.5, { type: 'square', volume: 0.15, slideTo: 100 })
+        break
+      case 'shotUndone':
+        // The shot sound played backwards
+        this.tone(320, 0.12, { type: 'square', volume: 0.1, slideTo: 620 })
+        break
+      case 'levelComplete':
+        this.arpeggio([523.25, 659.25, 783.99, 1046.5], 0.1, 0.3)
+        break
+      case 'gameOver':
+        if (event.won) this.arpeggio([523.25, 659.25, 783.99, 1046.5, 1318.5, 1568, 2093], 0.09, 0.6)
+        break
+    }
+  }
+
+  // The scheduler picks up the new tempo from the next note
+  private updateTempo() {
+    this.tempo = MUSIC_BASE_TEMPO + this.pressure * MUSIC_TEMPO_AT_LINE + (this.difficulty - 1) * MUSIC_TEMPO_PER_LEVEL
+  }
+
+  private unlock = () => {
+    if (!this.context) {
+      this.context = new AudioContext()
+      this.master = this.context.createGain()
+      this.sfx = this.context.createGain()
+      this.music = this.context.createGain()
+      this.sfx.connect(this.master)
+      this.music.connect(this.master)
+      this.master.connect(this.context.destination)
+      this.noiseBuffer = this.createNoise(this.context)
+      this.applyVolumes()
+      if (this.state === 'playing') this.startMusic()
+    }
+    if (this.context.state === 'suspended') this.context.resume()
+  }
+
+  private applyVolumes() {
+    if (!this.master || !this.sfx || !this.music) return
+    const { masterVolume, sfxVolume, musicVolume, muted } = this.settings
+    this.master.gain.value = muted ? 0 : masterVolume
+    this.sfx.gain.value = sfxVolume
+    // The music sits under the effects
+    this.music.gain.value = musicVolume * 0.4
+  }
+
+  private tone(frequency: number, duration: number, options: ToneOptions = {}, output: GainNode | null = this.sfx) {
+    if (!this.context || !output) return
+    const start = this.context.currentTime + (options.delay ?? 0)
+    const oscillator = this.context.createOscillator()
+    const gain = this.context.createGain()
+    oscillator.type = options.type ?? 'sine'
+    oscillator.frequency.setValueAtTime(frequency, start)
+    if (options.slideTo) oscillator.frequency.exponentialRampToValueAtTime(options.slideTo, start + duration)
+    // Short attack and an exponential tail so tones don't click
+    gain.gain.setValueAtTime(0.0001, start)
+    gain.gain.exponentialRampToValueAtTime(options.volume ?? 0.2, start + 0.005)
+    gain.gain.exponentialRampToValueAtTime(0.0001, start + duration)
+    oscillator.connect(gain)
+    gain.connect(output)
+    oscillator.start(start)
+    oscillator.stop(start + duration + 0.02)
+  }
+
+  // Filtered noise whose cutoff sweeps from `from` to `to` Hz
+  private noise(duration: number, volume: number, from: number, to: number) {
+    if (!this.context || !this.sfx || !this.noiseBuffer) return
+    const start = this.context.currentTime
+    const source = this.context.createBufferSource()
+    const filter = this.context.createBiquadFilter()
+    const gain = this.context.createGain()
+    source.buffer = this.noiseBuffer
+    filter.type = 'lowpass'
+    filter.frequency.setValueAtTime(from, start)
+    filter.frequency.exponentialRampToValueAtTime(to, start + duration)
+    gain.gain.setValueAtTime(volume, start)
+    gain.gain.exponentialRampToValueAtTime(0.0001, start + duration)
+    source.connect(filter)
+    filter.connect(gain)
+    gain.connect(this.sfx)
+    source.start(start)
+    source.stop(start + duration)
+  }
+
+  private arpeggio(pitches: number[], spacing: number, length: number) {
+    pitches.forEach((pitch, i) => {
+      const last = i === pitches.length - 1
+      this.tone(pitch, last ? length : spacing * 2, { type: 'triangle', volume: 0.25, delay: i * spacing })
+    })
+  }
+
+  // One second of white noise, shared by every noise sound
+  private createNoise(context: AudioContext): AudioBuffer {
+    const buffer = context.createBuffer(1, context.sampleRate, context.sampleRate)
+    const data = buffer.getChannelData(0)
+    for (let i = 0; i < data.length; i++) {
+      data[i] = Math.random() * 2 - 1
+    }
+    return buffer
+  }
+
+  private startMusic() {
+    if (!this.context || this.musicTimer !== null) return
+    this.nextNoteTime = this.context.currentTime + 0.05
+    this.musicStep = 0
+    this.musicTimer = window.setInterval(this.scheduleMusic, SCHEDULER_INTERVAL)
+  }
+
+  private stopMusic() {
+    if (this.musicTimer === null) return
+    window.clearInterval(this.musicTimer)
+    this.musicTimer = null
+  }
+
+  // Queues every note that starts before the next wake-up, so timing doesn't depend on the timer
+  private scheduleMusic = () => {
+    if (!this.context) return
+    const stepLength = 60 / this.tempo / 2
+    while (this.nextNoteTime < this.context.currentTime + SCHEDULE_AHEAD) {
+      const bar = Math.floor(this.musicStep / STEPS_PER_BAR) % CHORDS.length
+      const step = this.musicStep % STEPS_PER_BAR
+      const chord = CHORDS[bar]
+      const delay = this.nextNoteTime - this.context.currentTime
+
+      if (step % 4 === 0) {
+        this.tone(chord[0] / 2, stepLength * 3, { type: 'triangle', volume: 0.5, delay }, this.music)
+      }
+      this.tone(chord[step % chord.length] * 2, stepLength * 0.9, { type: 'square', volume: 0.08, delay }, this.music)
+
+      this.nextNoteTime += stepLength
+      this.musicStep++
+    }
+  }
+}
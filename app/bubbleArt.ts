@@ -0,0 +1,267 @@
+import type { Bubble, BubbleColor } from './types'
+
+export const COLOR_MAP: { [key: string]: string } = {
+  red: '#FF4757',
+  blue: '#5352ED',
+  green: '#2ED573',
+  yellow: '#FFA502',
+  purple: '#A55EEA',
+  orange: '#FF6348',
+  cyan: '#00D2D3',
+  pink: '#FF6B9D',
+  rainbow: '#FFFFFF',
+  bomb: '#2F3542',
+  freeze: '#70A1FF',
+  stone: '#7F8C8D'
+}
+
+export type ColorTheme = 'standard' | 'deuteranopia' | 'protanopia' | 'tritanopia' | 'highContrast'
+
+interface ThemePalette {
+  label: string
+  // Replacements for the standard colors; power-ups and stones keep theirs
+  colors: { [key: string]: string }
+  // Ring drawn around every bubble so neighbours don't run together
+  outline?: string
+}
+
+// The colorblind palettes keep the hues that type of vision can still separate and spread the
+// rest out by lightness, so pairs like red/orange/pink differ in brightness as well as hue
+export const COLOR_THEMES: Record<ColorTheme, ThemePalette> = {
+  standard: { label: 'Standard', colors: {} },
+  deuteranopia: {
+    label: 'Deuteranopia (green-weak)',
+    colors: {
+      red: '#D55E00', blue: '#0072B2', green: '#009E73', yellow: '#F0E442',
+      purple: '#CC79A7', orange: '#E69F00', cyan: '#56B4E9', pink: '#E8E8E8'
+    }
+  },
+  protanopia: {
+    label: 'Protanopia (red-weak)',
+    colors: {
+      red: '#FE6100', blue: '#648FFF', green: '#1B7837', yellow: '#FFE45E',
+      purple: '#785EF0', orange: '#FFB000', cyan: '#A6DBF0', pink: '#E8E8E8'
+    }
+  },
+  tritanopia: {
+    label: 'Tritanopia (blue-weak)',
+    colors: {
+      red: '#D7263D', blue: '#1B3A6B', green: '#2E8B57', yellow: '#FFFFFF',
+      purple: '#8E2C8E', orange: '#F28E2B', cyan: '#8FD3C1', pink: '#FFB3C6'
+    }
+  },
+  highContrast: {
+    label: 'High contrast',
+    colors: {
+      red: '#FF0000', blue: '#0033FF', green: '#00CC00', yellow: '#FFFF00',
+      purple: '#9900CC', orange: '#FF8800', cyan: '#00FFFF', pink: '#FF66CC'
+    },
+    outline: '#000000'
+  }
+}
+
+export interface BubbleStyle {
+  theme: ColorTheme
+  // Draw each color's shape inside it, so colors can be told apart without seeing them
+  glyphs: boolean
+}
+
+export const DEFAULT_BUBBLE_STYLE: BubbleStyle = { theme: 'standard', glyphs: false }
+
+type Glyph = 'triangle' | 'square' | 'diamond' | 'star' | 'plus' | 'dot' | 'hexagon' | 'cross'
+
+const GLYPHS: { [key: string]: Glyph } = {
+  red: 'triangle',
+  blue: 'square',
+  green: 'diamond',
+  yellow: 'star',
+  purple: 'plus',
+  orange: 'dot',
+  cyan: 'hexagon',
+  pink: 'cross'
+}
+
+export function bubbleColor(color: BubbleColor, theme: ColorTheme): string {
+  return COLOR_THEMES[theme].colors[color] ?? COLOR_MAP[color]
+}
+
+export function drawBubble(ctx: CanvasRenderingContext2D, bubble: Bubble, style: BubbleStyle = DEFAULT_BUBBLE_STYLE) {
+  const scale = bubble.isPopping ? 1 - (bubble.popProgress || 0) : 1
+  const alpha = bubble.isPopping ? 1 - (bubble.popProgress || 0) : 1
+
+  ctx.save()
+  ctx.globalAlpha *= alpha
+  ctx.translate(bubble.x, bubble.y)
+  ctx.scale(scale, scale)
+
+  // Main bubble
+  const gradient = ctx.createRadialGradient(-5, -5, 0, 0, 0, bubble.radius)
+  const color = bubbleColor(bubble.color, style.theme)
+
+  if (bubble.color === 'rainbow') {
+    gradient.addColorStop(0, '#ffffff')
+    gradient.addColorStop(0.3, '#ff00ff')
+    gradient.addColorStop(0.6, '#00ffff')
+    gradient.addColorStop(1, '#ffff00')
+  } else {
+    gradient.addColorStop(0, lightenColor(color, 40))
+    gradient.addColorStop(1, color)
+  }
+
+  ctx.fillStyle = gradient
+  ctx.beginPath()
+  ctx.arc(0, 0, bubble.radius, 0, Math.PI * 2)
+  ctx.fill()
+
+  // Shine
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.4)'
+  ctx.beginPath()
+  ctx.arc(-7, -7, 6, 0, Math.PI * 2)
+  ctx.fill()
+
+  const outline = COLOR_THEMES[style.theme].outline
+  if (outline) {
+    ctx.strokeStyle = outline
+    ctx.lineWidth = 2
+    ctx.beginPath()
+    ctx.arc(0, 0, bubble.radius - 1, 0, Math.PI * 2)
+    ctx.stroke()
+  }
+
+  const glyph = GLYPHS[bubble.color]
+  if (style.glyphs && glyph) {
+    // Dark shapes on light colors and light ones on dark colors
+    ctx.fillStyle = luminance(color) > 0.55 ? 'rgba(0, 0, 0, 0.6)' : 'rgba(255, 255, 255, 0.9)'
+    drawGlyph(ctx, glyph, bubble.radius * 0.5)
+  }
+
+  // Special icons
+  if (bubble.color === 'bomb') {
+    ctx.fillStyle = '#ffffff'
+    ctx.font = 'bold 20px Arial'
+    ctx.textAlign = 'center'
+    ctx.textBaseline = 'middle'
+    ctx.fillText('💣', 0, 0)
+  } else if (bubble.color === 'freeze') {
+    ctx.fillStyle = '#ffffff'
+    ctx.font = 'bold 20px Arial'
+    ctx.textAlign = 'center'
+    ctx.textBaseline = 'middle'
+    ctx.fillText('❄', 0, 0)
+  } else if (bubble.color === 'stone') {
+    // Cracks
+    ctx.strokeStyle = 'rgba(0, 0, 0, 0.45)'
+    ctx.lineWidth = 2
+    ctx.beginPath()
+    ctx.moveTo(-bubble.radius * 0.6, -bubble.radius * 0.2)
+    ctx.lineTo(-bubble.radius * 0.1, bubble.radius * 0.1)
+    ctx.lineTo(bubble.radius * 0.2, -bubble.radius * 0.5)
+    ctx.moveTo(-bubble.radius * 0.1, bubble.radius * 0.1)
+    ctx.lineTo(bubble.radius * 0.3, bubble.radius * 0.6)
+    ctx.stroke()
+  }
+
+  // Armor plating, one ring per extra hit still needed
+  if (bubble.hits && bubble.hits > 1) {
+    ctx.strokeStyle = '#D9DEE4'
+    ctx.lineWidth = 2.5
+    for (let i = 1; i < bubble.hits; i++) {
+      ctx.beginPath()
+      ctx.arc(0, 0, bubble.radius - 2 - (i - 1) * 5, 0, Math.PI * 2)
+      ctx.stroke()
+    }
+  }
+
+  // Chains across the bubble
+  if (bubble.chained) {
+    ctx.strokeStyle = '#C0C7CF'
+    ctx.lineWidth = 3
+    ctx.setLineDash([5, 3])
+    ctx.beginPath()
+    ctx.moveTo(-bubble.radius * 0.75, -bubble.radius * 0.75)
+    ctx.lineTo(bubble.radius * 0.75, bubble.radius * 0.75)
+    ctx.moveTo(bubble.radius * 0.75, -bubble.radius * 0.75)
+    ctx.lineTo(-bubble.radius * 0.75, bubble.radius * 0.75)
+    ctx.stroke()
+    ctx.setLineDash([])
+  }
+
+  // Tagged bubbles wear a gold ring with a star in the middle
+  if (bubble.tagged) {
+    ctx.strokeStyle = '#FFD700'
+    ctx.lineWidth = 3
+    ctx.beginPath()
+    ctx.arc(0, 0, bubble.radius - 1.5, 0, Math.PI * 2)
+    ctx.stroke()
+    ctx.fillStyle = '#FFD700'
+    ctx.font = 'bold 16px Arial'
+    ctx.textAlign = 'center'
+    ctx.textBaseline = 'middle'
+    ctx.fillText('★', 0, 0)
+  }
+
+  ctx.restore()
+}
+
+function drawGlyph(ctx: CanvasRenderingContext2D, glyph: Glyph, size: number) {
+  ctx.beginPath()
+  switch (glyph) {
+    case 'triangle':
+      polygon(ctx, 3, size * 1.1, -Math.PI / 2)
+      break
+    case 'square':
+      ctx.rect(-size * 0.75, -size * 0.75, size * 1.5, size * 1.5)
+      break
+    case 'diamond':
+      polygon(ctx, 4, size, -Math.PI / 2)
+      break
+    case 'hexagon':
+      polygon(ctx, 6, size, 0)
+      break
+    case 'dot':
+      ctx.arc(0, 0, size * 0.6, 0, Math.PI * 2)
+      break
+    case 'star':
+      for (let i = 0; i < 10; i++) {
+        const radius = i % 2 === 0 ? size : size * 0.45
+        const angle = -Math.PI / 2 + (i * Math.PI) / 5
+        ctx.lineTo(Math.cos(angle) * radius, Math.sin(angle) * radius)
+      }
+      ctx.closePath()
+      break
+    case 'plus':
+    case 'cross': {
+      const arm = size * 0.3
+      ctx.save()
+      if (glyph === 'cross') ctx.rotate(Math.PI / 4)
+      ctx.rect(-size, -arm, size * 2, arm * 2)
+      ctx.rect(-arm, -size, arm * 2, size * 2)
+      ctx.restore()
+      break
+    }
+  }
+  // Nonzero fill so the overlapping bars of the plus and cross fill solid
+  ctx.fill('nonzero')
+}
+
+function polygon(ctx: CanvasRenderingContext2D, sides: number, radius: number, rotation: number) {
+  for (let i = 0; i < sides; i++) {
+    const angle = rotation + (i * Math.PI * 2) / sides
+    ctx.lineTo(Math.cos(angle) * radius, Math.sin(angle) * radius)
+  }
+  ctx.closePath()
+}
+
+// Relative brightness from 0 to 1
+function luminance(color: string): number {
+  const num = parseInt(color.replace('#', ''), 16)
+  return (0.299 * ((num >> 16) & 0xff) + 0.587 * ((num >> 8) & 0xff) + 0.114 * (num & 0xff)) / 255
+}
+
+export function lightenColor(color: string, percent: number): string {
+  const num = parseInt(color.replace('#', ''), 16)
+  const r = Math.min(255, ((num >> 16) & 0xff) + percent)
+  const g = Math.min(255, ((num >> 8) & 0xff) + percent)
+  const b = Math.min(255, (num & 0xff) + percent)
+  return `#${((r << 16) | (g << 8) | b).toString(16).padStart(6, '0')}`
+}
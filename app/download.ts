@@ -0,0 +1,11 @@
+// Saves text as a file through the browser's download prompt
+export function downloadFile(name: string, text: string) {
+  const blob = new Blob([text], { type: 'application/json' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = name
+  link.click()
+  // Revoking straight away can cancel the download in some browsers, so give it a moment
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
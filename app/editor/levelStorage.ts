@@ -0,0 +1,50 @@
+import { downloadFile } from '../download'
+import { isRecord } from '../guards'
+import { LevelBounds, parseLevel, PatternError } from '../patterns'
+import type { LevelConfig } from '../types'
+
+export interface SavedLevel {
+  name: string
+  level: LevelConfig
+  updatedAt: number
+}
+
+const STORAGE_KEY = 'colorBurst.editorLevels'
+
+// Entries that don't pass the level checks are left out rather than breaking the list
+export function loadSavedLevels(bounds: LevelBounds): SavedLevel[] {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY)
+    const parsed: unknown = raw ? JSON.parse(raw) : []
+    if (!Array.isArray(parsed)) return []
+    return parsed.flatMap(entry => {
+      const saved = parseSavedLevel(entry, bounds)
+      return saved ? [saved] : []
+    })
+  } catch {
+    return []
+  }
+}
+
+function parseSavedLevel(value: unknown, bounds: LevelBounds): SavedLevel | null {
+  if (!isRecord(value) || typeof value.name !== 'string' || typeof value.updatedAt !== 'number') return null
+  try {
+    return { name: value.name, level: parseLevel(value.level, bounds), updatedAt: value.updatedAt }
+  } catch (e) {
+    if (e instanceof PatternError) return null
+    throw e
+  }
+}
+
+export function storeSavedLevels(levels: SavedLevel[]) {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(levels))
+}
+
+export function upsertSavedLevel(levels: SavedLevel[], saved: SavedLevel): SavedLevel[] {
+  const others = levels.filter(level => level.name !== saved.name)
+  return [saved, ...others]
+}
+
+export function downloadLevel(name: string, level: LevelConfig) {
+  downloadFile(`${name.trim().replace(/[^\w-]+/g, '-') || 'level'}.json`, JSON.stringify(level, null, 2))
+}
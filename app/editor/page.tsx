@@ -0,0 +1,531 @@
+'use client'
+
+import Link from 'next/link'
+import { useEffect, useRef, useState } from 'react'
+import SoundSystem from '../audio'
+import BubbleShooter from '../BubbleShooter'
+import GameEngine from '../GameEngine'
+import GameOverlay, { applyGameEvent, INITIAL_VIEW, OverlayView } from '../GameOverlay'
+import { DEFAULT_BINDINGS, InputBindings, loadBindings } from '../InputController'
+import { COLOR_MAP, drawBubble } from '../bubbleArt'
+import { isInside, pixelToCell, rowLength } from '../hexGrid'
+import { DEFAULT_LOSE_CONDITIONS, DEFAULT_OBJECTIVES, LoseCondition, Objective } from '../objectives'
+import {
+  COLOR_CODES,
+  formatPattern,
+  formatShotSequence,
+  loadLevel,
+  parseCell,
+  parsePattern,
+  parseShotSequence,
+  PatternError,
+  POWER_UP_CODES
+} from '../patterns'
+import { randomSeed } from '../Random'
+import { AIM_ASSIST_PRESETS, bubbleStyle, DEFAULT_SETTINGS as DEFAULT_GAME_SETTINGS, GameSettings, loadSettings, saveSettings } from '../settings'
+import type { LevelConfig, PatternCell } from '../types'
+import { downloadLevel, loadSavedLevels, SavedLevel, storeSavedLevels, upsertSavedLevel } from './levelStorage'
+
+// Only used for its grid geometry, so the editor lines up exactly with the game board
+const geometry = new GameEngine()
+const bounds = { rows: geometry.ROWS, cols: geometry.COLS }
+const EDITOR_HEIGHT = Math.ceil(geometry.getBubbleY(geometry.ROWS - 1) + geometry.BUBBLE_SPACING)
+
+const SPECIAL_TOOLS = [
+  { token: '?', label: 'Random' },
+  { token: '*', label: 'Rainbow' },
+  { token: '!', label: 'Bomb' },
+  { token: '~', label: 'Freeze' },
+  { token: '#', label: 'Stone' },
+  { token: '.', label: 'Erase' }
+]
+
+type Modifier = 'none' | 'armored' | 'chained' | 'tagged'
+
+const LOSE_CONDITION_LABELS: Record<LoseCondition, string> = {
+  ceiling: 'Board reaches the shooter',
+  outOfTime: 'Time runs out',
+  outOfShots: 'Shots run out'
+}
+
+interface LevelSettings {
+  colors: number
+  speed: number
+  rowSpeed: number
+  timeLimit: number
+  // -1 for unlimited
+  swaps: number
+  hasPowerUps: boolean
+  hasObstacles: boolean
+  // Objectives; clearing the board when none are picked
+  clearBoard: boolean
+  clearTopRow: boolean
+  // 0 for off
+  freeTagged: number
+  scorePoints: number
+  loseConditions: LoseCondition[]
+  // Cell tokens, e.g. 'R B *'; empty for a random queue
+  shotSequence: string
+  // 0 for no limit
+  shotLimit: number
+}
+
+const DEFAULT_SETTINGS: LevelSettings = {
+  colors: 5,
+  speed: 1,
+  rowSpeed: 0,
+  timeLimit: 0,
+  swaps: -1,
+  hasPowerUps: false,
+  hasObstacles: false,
+  clearBoard: true,
+  clearTopRow: false,
+  freeTagged: 0,
+  scorePoints: 0,
+  loseConditions: DEFAULT_LOSE_CONDITIONS,
+  shotSequence: '',
+  shotLimit: 0
+}
+
+function emptyCells(): PatternCell[][] {
+  return Array.from({ length: bounds.rows }, (_, row) => Array<PatternCell>(rowLength(row, bounds.cols)).fill(null))
+}
+
+function cellsFromLevel(level: LevelConfig): PatternCell[][] {
+  const cells = emptyCells()
+  const pattern = level.patterns[0]
+  if (!pattern) return cells
+  parsePattern(pattern, { ...bounds, colors: level.colors, obstacles: level.hasObstacles, powerUps: level.hasPowerUps }).forEach((row, index) => {
+    cells[index] = row
+  })
+  return cells
+}
+
+function buildObjectives(settings: LevelSettings): Objective[] {
+  const objectives: Objective[] = []
+  if (settings.clearBoard) objectives.push({ type: 'clearBoard' })
+  if (settings.clearTopRow) objectives.push({ type: 'clearTopRow' })
+  if (settings.freeTagged > 0) objectives.push({ type: 'freeTagged', count: settings.freeTagged })
+  if (settings.scorePoints > 0) objectives.push({ type: 'score', points: settings.scorePoints })
+  return objectives
+}
+
+function levelSettings(level: LevelConfig): LevelSettings {
+  const objectives = level.objectives ?? DEFAULT_OBJECTIVES
+  const find = <T extends Objective['type']>(type: T) =>
+    objectives.find((objective): objective is Extract<Objective, { type: T }> => objective.type === type)
+  return {
+    colors: level.colors,
+    speed: level.speed,
+    rowSpeed: level.rowSpeed ?? 0,
+    timeLimit: level.timeLimit ?? 0,
+    swaps: level.swaps ?? -1,
+    hasPowerUps: level.hasPowerUps,
+    hasObstacles: level.hasObstacles,
+    clearBoard: !!find('clearBoard'),
+    clearTopRow: !!find('clearTopRow'),
+    freeTagged: find('freeTagged')?.count ?? 0,
+    scorePoints: find('score')?.points ?? 0,
+    loseConditions: level.loseConditions ?? DEFAULT_LOSE_CONDITIONS,
+    shotSequence: level.shotSequence ? formatShotSequence(level.shotSequence) : '',
+    shotLimit: level.shotLimit ?? 0
+  }
+}
+
+function buildLevel(name: string, cells: PatternCell[][], settings: LevelSettings): LevelConfig {
+  const rows = formatPattern(cells)
+  // Empty rows at the bottom are implied by the format
+  while (rows.length > 1 && rows[rows.length - 1].trim().split(/\s+/).every(token => token === '.')) {
+    rows.pop()
+  }
+
+  const level: LevelConfig = {
+    colors: settings.colors,
+    speed: settings.speed,
+    patterns: [rows],
+    hasPowerUps: settings.hasPowerUps,
+    hasObstacles: settings.hasObstacles
+  }
+  if (settings.rowSpeed > 0) level.rowSpeed = settings.rowSpeed
+  if (settings.timeLimit > 0) level.timeLimit = settings.timeLimit
+  if (settings.swaps >= 0) level.swaps = settings.swaps
+  if (name.trim()) level.name = name.trim()
+
+  const objectives = buildObjectives(settings)
+  if (objectives.length > 0) level.objectives = objectives
+  if (DEFAULT_LOSE_CONDITIONS.some(condition => !settings.loseConditions.includes(condition))) {
+    level.loseConditions = settings.loseConditions
+  }
+  const sequence = parseShotSequence(settings.shotSequence, { ...bounds, colors: settings.colors, powerUps: settings.hasPowerUps })
+  if (sequence.length > 0) level.shotSequence = sequence
+  if (settings.shotLimit > 0) level.shotLimit = settings.shotLimit
+
+  // Round-trip through the loader so the editor never saves something the game rejects
+  return loadLevel(JSON.stringify(level), bounds)
+}
+
+export default function LevelEditor() {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const playCanvasRef = useRef<HTMLCanvasElement>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const paintingRef = useRef(false)
+  const gameRef = useRef<BubbleShooter | null>(null)
+  const soundRef = useRef<SoundSystem | null>(null)
+
+  const [cells, setCells] = useState<PatternCell[][]>(emptyCells)
+  const [settings, setSettings] = useState<LevelSettings>(DEFAULT_SETTINGS)
+  const [name, setName] = useState('My Level')
+  const [tool, setTool] = useState('R')
+  const [modifier, setModifier] = useState<Modifier>('none')
+  const [hits, setHits] = useState(2)
+  const [savedLevels, setSavedLevels] = useState<SavedLevel[]>([])
+  const [message, setMessage] = useState<string | null>(null)
+  const [playTest, setPlayTest] = useState<{ level: LevelConfig; seed: number } | null>(null)
+  const [playView, setPlayView] = useState<OverlayView>(INITIAL_VIEW)
+  const [gameSettings, setGameSettings] = useState<GameSettings>(DEFAULT_GAME_SETTINGS)
+  const [bindings, setBindings] = useState<InputBindings>(DEFAULT_BINDINGS)
+
+  useEffect(() => {
+    setSavedLevels(loadSavedLevels(bounds))
+  }, [])
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const ctx = canvas?.getContext('2d')
+    if (!canvas || !ctx) return
+
+    ctx.fillStyle = '#2d3561'
+    ctx.fillRect(0, 0, canvas.width, canvas.height)
+
+    cells.forEach((row, rowIndex) => {
+      row.forEach((cell, col) => {
+        const x = geometry.getBubbleX(rowIndex, col)
+        const y = geometry.getBubbleY(rowIndex)
+        const radius = geometry.BUBBLE_RADIUS
+
+        if (!cell) {
+          ctx.strokeStyle = 'rgba(255, 255, 255, 0.2)'
+          ctx.lineWidth = 1
+          ctx.beginPath()
+          ctx.arc(x, y, radius, 0, Math.PI * 2)
+          ctx.stroke()
+          return
+        }
+
+        if (cell.color === 'random') {
+          ctx.fillStyle = 'rgba(255, 255, 255, 0.35)'
+          ctx.beginPath()
+          ctx.arc(x, y, radius, 0, Math.PI * 2)
+          ctx.fill()
+        } else {
+          drawBubble(ctx, { x, y, color: cell.color, radius, row: rowIndex, col, hits: cell.hits, chained: cell.chained, tagged: cell.tagged })
+        }
+
+        if (cell.color === 'random') {
+          ctx.fillStyle = '#ffffff'
+          ctx.font = 'bold 16px Arial'
+          ctx.textAlign = 'center'
+          ctx.textBaseline = 'middle'
+          ctx.fillText('?', x, y)
+        }
+      })
+    })
+  }, [cells])
+
+  useEffect(() => {
+    if (!playTest || !playCanvasRef.current) return
+
+    const storedBindings = loadBindings()
+    const storedSettings = loadSettings()
+    setBindings(storedBindings)
+    setGameSettings(storedSettings)
+    setPlayView(INITIAL_VIEW)
+
+    const game = new BubbleShooter(playCanvasRef.current, {
+      levels: [playTest.level],
+      startLevel: 1,
+      seed: playTest.seed,
+      bindings: storedBindings,
+      aimAssist: AIM_ASSIST_PRESETS[storedSettings.aimAssist],
+      bubbleStyle: bubbleStyle(storedSettings)
+    })
+    gameRef.current = game
+    const sound = new SoundSystem(storedSettings)
+    soundRef.current = sound
+    sound.attach()
+    const unsubscribe = game.on(event => setPlayView(previous => applyGameEvent(previous, event)))
+    const unhookSound = game.on(sound.handleEvent)
+    game.start()
+
+    return () => {
+      unsubscribe()
+      unhookSound()
+      sound.detach()
+      soundRef.current = null
+      game.stop()
+      gameRef.current = null
+    }
+  }, [playTest])
+
+  const currentToken = () => {
+    if (!COLOR_CODES[tool] || modifier === 'none') return tool
+    // Tags aren't obstacles, so they work on any level
+    if (modifier === 'tagged') return `${tool}@`
+    if (!settings.hasObstacles) return tool
+    return modifier === 'chained' ? `${tool}&` : `${tool}${hits}`
+  }
+
+  const paintAt = (clientX: number, clientY: number) => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+    const rect = canvas.getBoundingClientRect()
+    const x = (clientX - rect.left) * (canvas.width / rect.width)
+    const y = (clientY - rect.top) * (canvas.height / rect.height)
+
+    const target = pixelToCell(geometry.layout, x, y)
+    if (!isInside(geometry.layout, bounds.rows, target)) return
+
+    const cell = parseCell(currentToken(), bounds)
+    setCells(previous => previous.map((cellsRow, r) => r !== target.row ? cellsRow : cellsRow.map((existing, c) => c === target.col ? cell : existing)))
+  }
+
+  const withLevel = (action: (level: LevelConfig) => void) => {
+    try {
+      action(buildLevel(name, cells, settings))
+      setMessage(null)
+    } catch (e) {
+      setMessage(e instanceof PatternError ? e.message : String(e))
+    }
+  }
+
+  const save = () => withLevel(level => {
+    const next = upsertSavedLevel(savedLevels, { name, level, updatedAt: Date.now() })
+    storeSavedLevels(next)
+    setSavedLevels(next)
+  })
+
+  const open = (saved: SavedLevel) => {
+    try {
+      setCells(cellsFromLevel(saved.level))
+      setSettings(levelSettings(saved.level))
+      setName(saved.name)
+      setMessage(null)
+    } catch (e) {
+      setMessage(e instanceof PatternError ? e.message : String(e))
+    }
+  }
+
+  const remove = (saved: SavedLevel) => {
+    const next = savedLevels.filter(level => level.name !== saved.name)
+    storeSavedLevels(next)
+    setSavedLevels(next)
+  }
+
+  const importFile = async (file: File) => {
+    try {
+      const level = loadLevel(await file.text(), bounds)
+      open({ name: level.name ?? file.name.replace(/\.json$/i, ''), level, updatedAt: Date.now() })
+    } catch (e) {
+      setMessage(`${file.name}: ${e instanceof PatternError ? e.message : String(e)}`)
+    }
+  }
+
+  const updateSetting = <K extends keyof LevelSettings>(key: K, value: LevelSettings[K]) => {
+    setSettings(previous => ({ ...previous, [key]: value }))
+  }
+
+  if (playTest) {
+    return (
+      <main style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: 12, padding: 16, height: '100vh' }}>
+        <div style={{ display: 'flex', gap: 12, alignItems: 'center', color: '#ffffff' }}>
+          <button onClick={() => setPlayTest(null)}>Back to editor</button>
+          <span>Play-testing “{name}” · seed {playTest.seed}</span>
+        </div>
+        <div style={{ position: 'relative', lineHeight: 0, flex: 1, minHeight: 0, width: '100%' }}>
+          <canvas ref={playCanvasRef} style={{ width: '100%', height: '100%' }} />
+          <GameOverlay
+            view={playView}
+            levelCount={1}
+            seed={playTest.seed}
+            settings={gameSettings}
+            bindings={bindings}
+            onCommand={command => gameRef.current?.send(command)}
+            onSettingsChange={next => {
+              setGameSettings(next)
+              saveSettings(next)
+              gameRef.current?.setAimAssist(AIM_ASSIST_PRESETS[next.aimAssist])
+              gameRef.current?.setBubbleStyle(bubbleStyle(next))
+              soundRef.current?.setSettings(next)
+            }}
+            onBindingsChange={next => {
+              setBindings(next)
+              gameRef.current?.setBindings(next)
+            }}
+          />
+        </div>
+      </main>
+    )
+  }
+
+  const toolButton = (token: string, label: string, color?: string) => (
+    <button
+      key={token}
+      title={label}
+      disabled={
+        (!!COLOR_CODES[token] && Object.keys(COLOR_CODES).indexOf(token) >= settings.colors) ||
+        (token === '#' && !settings.hasObstacles) ||
+        (POWER_UP_CODES.includes(token) && !settings.hasPowerUps)
+      }
+      onClick={() => setTool(token)}
+      style={{
+        minWidth: 36,
+        height: 36,
+        borderRadius: 18,
+        border: tool === token ? '3px solid #ffffff' : '3px solid transparent',
+        background: color ?? 'rgba(0, 0, 0, 0.3)',
+        color: '#ffffff',
+        fontWeight: 'bold'
+      }}
+    >
+      {color ? '' : token}
+    </button>
+  )
+
+  return (
+    <main style={{ display: 'flex', gap: 24, padding: 24, color: '#ffffff', height: '100vh', overflow: 'auto' }}>
+      <section style={{ display: 'flex', flexDirection: 'column', gap: 12 }}>
+        <canvas
+          ref={canvasRef}
+          width={geometry.width}
+          height={EDITOR_HEIGHT}
+          onMouseDown={e => { paintingRef.current = true; paintAt(e.clientX, e.clientY) }}
+          onMouseMove={e => { if (paintingRef.current) paintAt(e.clientX, e.clientY) }}
+          onMouseUp={() => { paintingRef.current = false }}
+          onMouseLeave={() => { paintingRef.current = false }}
+          style={{ border: '4px solid #ffffff', borderRadius: '10px', maxWidth: '100%', cursor: 'crosshair' }}
+        />
+
+        <div style={{ display: 'flex', gap: 6, flexWrap: 'wrap' }}>
+          {Object.keys(COLOR_CODES).map(code => toolButton(code, COLOR_CODES[code], COLOR_MAP[COLOR_CODES[code]]))}
+          {SPECIAL_TOOLS.map(special => toolButton(special.token, special.label))}
+        </div>
+
+        <div style={{ display: 'flex', gap: 12, alignItems: 'center' }}>
+          <label><input type="radio" checked={modifier === 'none'} onChange={() => setModifier('none')} /> Plain</label>
+          <label>
+            <input type="radio" checked={modifier === 'armored'} disabled={!settings.hasObstacles} onChange={() => setModifier('armored')} /> Armored
+          </label>
+          <select value={hits} disabled={modifier !== 'armored' || !settings.hasObstacles} onChange={e => setHits(Number(e.target.value))}>
+            {[2, 3, 4, 5, 6, 7, 8, 9].map(value => <option key={value} value={value}>{value} hits</option>)}
+          </select>
+          <label>
+            <input type="radio" checked={modifier === 'chained'} disabled={!settings.hasObstacles} onChange={() => setModifier('chained')} /> Chained
+          </label>
+          <label>
+            <input type="radio" checked={modifier === 'tagged'} onChange={() => setModifier('tagged')} /> Tagged
+          </label>
+        </div>
+
+        {message && <p style={{ color: '#FFD1D1', fontWeight: 'bold' }}>{message}</p>}
+      </section>
+
+      <aside style={{ display: 'flex', flexDirection: 'column', gap: 10, minWidth: 260 }}>
+        <Link href="/" style={{ color: '#ffffff' }}>← Back to game</Link>
+        <label>Name <input value={name} onChange={e => setName(e.target.value)} /></label>
+        <label>
+          Colors{' '}
+          <input type="number" min={1} max={8} value={settings.colors} onChange={e => updateSetting('colors', Number(e.target.value))} />
+        </label>
+        <label>
+          Speed{' '}
+          <input type="number" min={0.1} step={0.1} value={settings.speed} onChange={e => updateSetting('speed', Number(e.target.value))} />
+        </label>
+        <label>
+          Row speed{' '}
+          <input type="number" min={0} step={0.01} value={settings.rowSpeed} onChange={e => updateSetting('rowSpeed', Number(e.target.value))} />
+        </label>
+        <label>
+          Time limit (s, 0 = none){' '}
+          <input type="number" min={0} step={10} value={settings.timeLimit} onChange={e => updateSetting('timeLimit', Number(e.target.value))} />
+        </label>
+        <label>
+          Swaps (-1 = unlimited){' '}
+          <input type="number" min={-1} step={1} value={settings.swaps} onChange={e => updateSetting('swaps', Math.max(-1, Math.round(Number(e.target.value))))} />
+        </label>
+        <label>
+          <input type="checkbox" checked={settings.hasPowerUps} onChange={e => updateSetting('hasPowerUps', e.target.checked)} /> Power-ups
+        </label>
+        <label>
+          <input type="checkbox" checked={settings.hasObstacles} onChange={e => updateSetting('hasObstacles', e.target.checked)} /> Obstacles
+        </label>
+
+        <h3>Objectives</h3>
+        <label>
+          <input type="checkbox" checked={settings.clearBoard} onChange={e => updateSetting('clearBoard', e.target.checked)} /> Clear the board
+        </label>
+        <label>
+          <input type="checkbox" checked={settings.clearTopRow} onChange={e => updateSetting('clearTopRow', e.target.checked)} /> Clear the top row
+        </label>
+        <label>
+          Free tagged (0 = off){' '}
+          <input type="number" min={0} step={1} value={settings.freeTagged} onChange={e => updateSetting('freeTagged', Math.max(0, Math.round(Number(e.target.value))))} />
+        </label>
+        <label>
+          Score (0 = off){' '}
+          <input type="number" min={0} step={100} value={settings.scorePoints} onChange={e => updateSetting('scorePoints', Math.max(0, Math.round(Number(e.target.value))))} />
+        </label>
+
+        <h3>Lose when</h3>
+        {DEFAULT_LOSE_CONDITIONS.map(condition => (
+          <label key={condition}>
+            <input
+              type="checkbox"
+              checked={settings.loseConditions.includes(condition)}
+              onChange={e => updateSetting(
+                'loseConditions',
+                DEFAULT_LOSE_CONDITIONS.filter(c => (c === condition ? e.target.checked : settings.loseConditions.includes(c)))
+              )}
+            /> {LOSE_CONDITION_LABELS[condition]}
+          </label>
+        ))}
+
+        <label>
+          Shot sequence (e.g. R B *, empty = random){' '}
+          <input value={settings.shotSequence} onChange={e => updateSetting('shotSequence', e.target.value)} />
+        </label>
+        <label>
+          Shot limit (0 = none){' '}
+          <input type="number" min={0} step={1} value={settings.shotLimit} onChange={e => updateSetting('shotLimit', Math.max(0, Math.round(Number(e.target.value))))} />
+        </label>
+
+        <div style={{ display: 'flex', gap: 6, flexWrap: 'wrap' }}>
+          <button onClick={() => withLevel(level => setPlayTest({ level, seed: randomSeed() }))}>Play-test</button>
+          <button onClick={save}>Save</button>
+          <button onClick={() => withLevel(level => downloadLevel(name, level))}>Export JSON</button>
+          <button onClick={() => fileInputRef.current?.click()}>Import JSON</button>
+          <button onClick={() => setCells(emptyCells())}>Clear</button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            style={{ display: 'none' }}
+            onChange={e => {
+              const file = e.target.files?.[0]
+              if (file) importFile(file)
+              e.target.value = ''
+            }}
+          />
+        </div>
+
+        <h3>Saved levels</h3>
+        {savedLevels.length === 0 && <p style={{ opacity: 0.7 }}>Nothing saved yet.</p>}
+        {savedLevels.map(saved => (
+          <div key={saved.name} style={{ display: 'flex', gap: 6, alignItems: 'center' }}>
+            <button onClick={() => open(saved)} style={{ flex: 1, textAlign: 'left' }}>{saved.name}</button>
+            <button onClick={() => remove(saved)} title="Delete">✕</button>
+          </div>
+        ))}
+      </aside>
+    </main>
+  )
+}
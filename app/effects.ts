@@ -0,0 +1,207 @@
+import { bubbleColor, BubbleStyle, drawBubble } from './bubbleArt'
+import Random from './Random'
+import type { Bubble, BubbleColor } from './types'
+
+// Purely visual effects: bubbles falling off the board and bursts where matches pop. Objects are
+// pooled and reused, so a big bomb or avalanche doesn't leave piles of garbage behind.
+
+// A fixed set of objects where the first `size` are live. Freeing one swaps the last live object
+// into its slot, so live objects stay packed at the front and nothing is ever allocated twice.
+export class Pool<T> {
+  private items: T[] = []
+  private create: () => T
+  size: number = 0
+
+  constructor(create: () => T, prefill: number = 0) {
+    this.create = create
+    for (let i = 0; i < prefill; i++) {
+      this.items.push(create())
+    }
+  }
+
+  acquire(): T {
+    if (this.size === this.items.length) this.items.push(this.create())
+    return this.items[this.size++]
+  }
+
+  get(index: number): T {
+    return this.items[index]
+  }
+
+  release(index: number) {
+    const last = --this.size
+    const item = this.items[index]
+    this.items[index] = this.items[last]
+    this.items[last] = item
+  }
+
+  clear() {
+    this.size = 0
+  }
+}
+
+interface FallingBubble {
+  // Drawn at the origin, then moved and rotated into place
+  bubble: Bubble
+  x: number
+  y: number
+  vx: number
+  vy: number
+  angle: number
+  spin: number
+  bounces: number
+  // Seconds since the first bounce, while it fades out
+  fade: number
+}
+
+interface Particle {
+  x: number
+  y: number
+  vx: number
+  vy: number
+  // Seconds
+  age: number
+  life: number
+  size: number
+  color: string
+}
+
+const RAINBOW_SPARKS = ['#ff00ff', '#00ffff', '#ffff00', '#ffffff']
+
+export default class EffectSystem {
+  private falling = new Pool<FallingBubble>(() => ({
+    bubble: { x: 0, y: 0, color: 'red', row: 0, col: 0, radius: 0 },
+    x: 0, y: 0, vx: 0, vy: 0, angle: 0, spin: 0, bounces: 0, fade: 0
+  }), 64)
+  private particles = new Pool<Particle>(() => ({
+    x: 0, y: 0, vx: 0, vy: 0, age: 0, life: 0, size: 0, color: ''
+  }), 256)
+  private rng: Random
+  style: BubbleStyle
+  // Dropped bubbles fade where they were and pops skip the sparks
+  reducedMotion: boolean = false
+  // Where falling bubbles bounce
+  private floor: number
+
+  // Pixels and seconds
+  private readonly GRAVITY = 1800
+  private readonly DROP_SPREAD = 120
+  private readonly DROP_LIFT = 150
+  private readonly MAX_SPIN = 6
+  private readonly RESTITUTION = 0.45
+  private readonly MAX_BOUNCES = 2
+  private readonly FADE_TIME = 0.5
+  private readonly SPARKS_PER_BUBBLE = 8
+  private readonly SPARK_SPEED = 350
+  private readonly SPARK_DRAG = 4
+
+  constructor(floor: number, seed: number, style: BubbleStyle) {
+    this.floor = floor
+    this.rng = new Random(seed)
+    this.style = style
+  }
+
+  drop(bubbles: Bubble[]) {
+    for (const source of bubbles) {
+      const fall = this.falling.acquire()
+      Object.assign(fall.bubble, { color: source.color, radius: source.radius, hits: source.hits, chained: false })
+      fall.x = source.x
+      fall.y = source.y
+      fall.vx = (this.rng.next() * 2 - 1) * this.DROP_SPREAD
+      fall.vy = -this.rng.next() * this.DROP_LIFT
+      fall.angle = 0
+      fall.spin = (this.rng.next() * 2 - 1) * this.MAX_SPIN
+      fall.bounces = 0
+      fall.fade = 0
+    }
+  }
+
+  burst(bubbles: Bubble[]) {
+    if (this.reducedMotion) return
+    for (const source of bubbles) {
+      for (let i = 0; i < this.SPARKS_PER_BUBBLE; i++) {
+        const spark = this.particles.acquire()
+        const direction = ((i + this.rng.next()) / this.SPARKS_PER_BUBBLE) * Math.PI * 2
+        const speed = this.SPARK_SPEED * (0.4 + this.rng.next() * 0.6)
+        spark.x = source.x
+        spark.y = source.y
+        spark.vx = Math.cos(direction) * speed
+        spark.vy = Math.sin(direction) * speed
+        spark.age = 0
+        spark.life = 0.4 + this.rng.next() * 0.3
+        spark.size = 3 + this.rng.next() * 3
+        spark.color = this.sparkColor(source.color)
+      }
+    }
+  }
+
+  clear() {
+    this.falling.clear()
+    this.particles.clear()
+  }
+
+  update(dt: number) {
+    // Walk backwards so releasing an object doesn't skip the one swapped into its place
+    for (let i = this.falling.size - 1; i >= 0; i--) {
+      const fall = this.falling.get(i)
+      const radius = fall.bubble.radius
+      if (!this.reducedMotion) {
+        fall.vy += this.GRAVITY * dt
+        fall.x += fall.vx * dt
+        fall.y += fall.vy * dt
+        fall.angle += fall.spin * dt
+
+        if (fall.y + radius > this.floor && fall.vy > 0 && fall.bounces < this.MAX_BOUNCES) {
+          fall.y = this.floor - radius
+          fall.vy *= -this.RESTITUTION
+          fall.spin *= 0.5
+          fall.bounces++
+        }
+      }
+      if (fall.bounces > 0 || this.reducedMotion) fall.fade += dt
+      if (fall.fade >= this.FADE_TIME || fall.y - radius > this.floor) this.falling.release(i)
+    }
+
+    const drag = Math.max(0, 1 - this.SPARK_DRAG * dt)
+    for (let i = this.particles.size - 1; i >= 0; i--) {
+      const spark = this.particles.get(i)
+      spark.age += dt
+      if (spark.age >= spark.life) {
+        this.particles.release(i)
+        continue
+      }
+      spark.vx *= drag
+      spark.vy *= drag
+      spark.x += spark.vx * dt
+      spark.y += spark.vy * dt
+    }
+  }
+
+  render(ctx: CanvasRenderingContext2D) {
+    for (let i = 0; i < this.falling.size; i++) {
+      const fall = this.falling.get(i)
+      ctx.save()
+      ctx.globalAlpha = 1 - fall.fade / this.FADE_TIME
+      ctx.translate(fall.x, fall.y)
+      ctx.rotate(fall.angle)
+      drawBubble(ctx, fall.bubble, this.style)
+      ctx.restore()
+    }
+
+    ctx.save()
+    for (let i = 0; i < this.particles.size; i++) {
+      const spark = this.particles.get(i)
+      const t = spark.age / spark.life
+      ctx.globalAlpha = 1 - t
+      ctx.fillStyle = spark.color
+      ctx.beginPath()
+      ctx.arc(spark.x, spark.y, spark.size * (1 - t * 0.5), 0, Math.PI * 2)
+      ctx.fill()
+    }
+    ctx.restore()
+  }
+
+  private sparkColor(color: BubbleColor): string {
+    return color === 'rainbow' ? this.rng.pick(RAINBOW_SPARKS) : bubbleColor(color, this.style.theme)
+  }
+}
@@ -0,0 +1,66 @@
+import { COLORS } from './levels'
+import type { LevelConfig } from './types'
+
+// Endless mode has no authored levels. New rows keep coming in at the top, and every few thousand
+// points the difficulty goes up a level: more colors, faster pushes, fewer power-ups. The pace
+// comes from pushInterval and missesPerPush alone; the level's `speed` stays at the base value.
+
+export interface EndlessTable {
+  // Points between difficulty levels
+  scorePerLevel: number
+  startColors: number
+  // Levels between each extra color
+  levelsPerColor: number
+  // Seconds between pushes on the first level, how much faster each level gets, and the floor
+  startPushInterval: number
+  pushIntervalStep: number
+  minPushInterval: number
+  // Shots that don't pop anything before rows are pushed in early
+  startMissesPerPush: number
+  minMissesPerPush: number
+  startPowerUpChance: number
+  powerUpChanceStep: number
+  minPowerUpChance: number
+  // First level with stones, armor and chains
+  obstacleLevel: number
+}
+
+export const ENDLESS_TABLE: EndlessTable = {
+  scorePerLevel: 1500,
+  startColors: 4,
+  levelsPerColor: 2,
+  startPushInterval: 15,
+  pushIntervalStep: 1,
+  minPushInterval: 5,
+  startMissesPerPush: 6,
+  minMissesPerPush: 2,
+  startPowerUpChance: 0.12,
+  powerUpChanceStep: 0.01,
+  minPowerUpChance: 0.04,
+  obstacleLevel: 4
+}
+
+export interface EndlessDifficulty {
+  level: number
+  config: LevelConfig
+  pushInterval: number
+  missesPerPush: number
+}
+
+export function endlessDifficulty(table: EndlessTable, score: number): EndlessDifficulty {
+  const level = 1 + Math.floor(score / table.scorePerLevel)
+  const steps = level - 1
+  return {
+    level,
+    config: {
+      colors: Math.min(COLORS.length, table.startColors + Math.floor(steps / table.levelsPerColor)),
+      speed: 1,
+      patterns: [],
+      hasPowerUps: true,
+      hasObstacles: level >= table.obstacleLevel,
+      powerUpChance: Math.max(table.minPowerUpChance, table.startPowerUpChance - steps * table.powerUpChanceStep)
+    },
+    pushInterval: Math.max(table.minPushInterval, table.startPushInterval - steps * table.pushIntervalStep),
+    missesPerPush: Math.max(table.minMissesPerPush, table.startMissesPerPush - Math.floor(steps / table.levelsPerColor))
+  }
+}
@@ -0,0 +1,17 @@
+// Narrowing helpers for data that comes from JSON: saves, imports and files picked by the player
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+export function isInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value)
+}
+
+export function isIntegerArray(value: unknown): value is number[] {
+  return Array.isArray(value) && value.every(isInteger)
+}
+
+export function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string')
+}
@@ -0,0 +1,165 @@
+import { describe, expect, it } from 'vitest'
+import { Cell, cellCenter, distance, HexLayout, isInside, neighbors, pixelToCell, rowLength, snapCell } from './hexGrid'
+
+const layout: HexLayout = { spacing: 40, rowHeight: 34.8, originX: 40, originY: 40, cols: 15 }
+const ROWS = 20
+
+const sorted = (cells: Cell[]) => [...cells].sort((a, b) => a.row - b.row || a.col - b.col)
+
+describe('row parity', () => {
+  it('gives odd rows one cell fewer', () => {
+    expect(rowLength(0, 15)).toBe(15)
+    expect(rowLength(1, 15)).toBe(14)
+    expect(isInside(layout, ROWS, { row: 0, col: 14 })).toBe(true)
+    expect(isInside(layout, ROWS, { row: 1, col: 14 })).toBe(false)
+  })
+
+  it('shifts odd rows half a cell to the right', () => {
+    expect(cellCenter(layout, { row: 0, col: 0 })).toEqual({ x: 40, y: 40 })
+    expect(cellCenter(layout, { row: 1, col: 0 })).toEqual({ x: 60, y: 74.8 })
+    expect(cellCenter(layout, { row: 2, col: 3 }, 10).y).toBeCloseTo(40 + 2 * 34.8 + 10)
+  })
+
+  it('uses different neighbor offsets on even and odd rows', () => {
+    expect(sorted(neighbors(layout, ROWS, { row: 2, col: 5 }))).toEqual([
+      { row: 1, col: 4 }, { row: 1, col: 5 },
+      { row: 2, col: 4 }, { row: 2, col: 6 },
+      { row: 3, col: 4 }, { row: 3, col: 5 }
+    ])
+    expect(sorted(neighbors(layout, ROWS, { row: 3, col: 5 }))).toEqual([
+      { row: 2, col: 5 }, { row: 2, col: 6 },
+      { row: 3, col: 4 }, { row: 3, col: 6 },
+      { row: 4, col: 5 }, { row: 4, col: 6 }
+    ])
+  })
+
+  it('drops neighbors that fall off the board', () => {
+    expect(sorted(neighbors(layout, ROWS, { row: 0, col: 0 }))).toEqual([{ row: 0, col: 1 }, { row: 1, col: 0 }])
+    expect(sorted(neighbors(layout, ROWS, { row: 1, col: 13 }))).toEqual([
+      { row: 0, col: 13 }, { row: 0, col: 14 },
+      { row: 1, col: 12 },
+      { row: 2, col: 13 }, { row: 2, col: 14 }
+    ])
+    expect(neighbors(layout, 1, { row: 0, col: 5 })).toHaveLength(2)
+  })
+
+  it('puts every neighbor one cell-width away', () => {
+    for (const cell of [{ row: 4, col: 7 }, { row: 5, col: 7 }]) {
+      const center = cellCenter(layout, cell)
+      for (const neighbor of neighbors(layout, ROWS, cell)) {
+        const other = cellCenter(layout, neighbor)
+        expect(Math.hypot(other.x - center.x, other.y - center.y)).toBeCloseTo(layout.spacing, 0)
+      }
+    }
+  })
+})
+
+describe('pixelToCell', () => {
+  it('maps every cell center back to its cell', () => {
+    for (let row = 0; row < ROWS; row++) {
+      for (let col = 0; col < rowLength(row, layout.cols); col++) {
+        const { x, y } = cellCenter(layout, { row, col }, 12)
+        expect(pixelToCell(layout, x, y, 12)).toEqual({ row, col })
+      }
+    }
+  })
+
+  it('splits a row halfway between cell centers', () => {
+    expect(pixelToCell(layout, 40 + 19.5, 40)).toEqual({ row: 0, col: 0 })
+    expect(pixelToCell(layout, 40 + 20.5, 40)).toEqual({ row: 0, col: 1 })
+    expect(pixelToCell(layout, 60 + 19.5, 74.8)).toEqual({ row: 1, col: 0 })
+    expect(pixelToCell(layout, 60 + 20.5, 74.8)).toEqual({ row: 1, col: 1 })
+  })
+
+  it('picks the row below only past the hexagon edge', () => {
+    expect(pixelToCell(layout, 40, 40 + 34.8 * 0.6)).toEqual({ row: 0, col: 0 })
+    expect(pixelToCell(layout, 60, 40 + 34.8 * 0.6)).toEqual({ row: 1, col: 0 })
+  })
+
+  it('returns cells outside the board at the borders', () => {
+    expect(pixelToCell(layout, 40 - 20.5, 40)).toEqual({ row: 0, col: -1 })
+    expect(pixelToCell(layout, 40 + 14 * 40 + 20.5, 40)).toEqual({ row: 0, col: 15 })
+    // Odd rows end a cell earlier, so the right wall sits in column 14
+    expect(pixelToCell(layout, 40 + 14 * 40, 74.8)).toEqual({ row: 1, col: 14 })
+    expect(pixelToCell(layout, 40, 40 - 34.8)).toEqual({ row: -1, col: 0 })
+  })
+})
+
+describe('distance', () => {
+  it('is zero for a cell and one for each neighbor on either row parity', () => {
+    expect(distance({ row: 3, col: 3 }, { row: 3, col: 3 })).toBe(0)
+    for (const cell of [{ row: 6, col: 6 }, { row: 7, col: 6 }]) {
+      for (const neighbor of neighbors(layout, ROWS, cell)) {
+        expect(distance(cell, neighbor)).toBe(1)
+      }
+    }
+  })
+
+  it('counts steps across rows of both parities', () => {
+    expect(distance({ row: 0, col: 0 }, { row: 0, col: 5 })).toBe(5)
+    expect(distance({ row: 0, col: 0 }, { row: 2, col: 0 })).toBe(2)
+    expect(distance({ row: 0, col: 0 }, { row: 2, col: 1 })).toBe(2)
+    expect(distance({ row: 0, col: 0 }, { row: 3, col: 0 })).toBe(3)
+    expect(distance({ row: 1, col: 0 }, { row: 4, col: 3 })).toBe(4)
+  })
+
+  it('is symmetric', () => {
+    const a = { row: 5, col: 2 }
+    const b = { row: 10, col: 11 }
+    expect(distance(a, b)).toBe(distance(b, a))
+  })
+})
+
+describe('snapCell', () => {
+  const board = (...cells: Cell[]) => {
+    const filled = new Set(cells.map(cell => `${cell.row},${cell.col}`))
+    return (cell: Cell) => !filled.has(`${cell.row},${cell.col}`)
+  }
+
+  it('lands in the empty neighbor closest to the shot', () => {
+    const hit = { row: 2, col: 5 }
+    const center = cellCenter(layout, hit)
+    expect(snapCell(layout, ROWS, board(hit), center.x - 15, center.y + 20, 0, hit)).toEqual({ row: 3, col: 4 })
+    expect(snapCell(layout, ROWS, board(hit), center.x + 15, center.y + 20, 0, hit)).toEqual({ row: 3, col: 5 })
+    expect(snapCell(layout, ROWS, board(hit), center.x + 30, center.y, 0, hit)).toEqual({ row: 2, col: 6 })
+  })
+
+  it('skips a closest neighbor that is already occupied', () => {
+    const hit = { row: 2, col: 5 }
+    const center = cellCenter(layout, hit)
+    const isEmpty = board(hit, { row: 3, col: 4 })
+    expect(snapCell(layout, ROWS, isEmpty, center.x - 15, center.y + 20, 0, hit)).toEqual({ row: 2, col: 4 })
+  })
+
+  it('follows the odd row neighbors when the hit bubble is on an odd row', () => {
+    const hit = { row: 3, col: 5 }
+    const center = cellCenter(layout, hit)
+    expect(snapCell(layout, ROWS, board(hit), center.x - 15, center.y + 20, 0, hit)).toEqual({ row: 4, col: 5 })
+    expect(snapCell(layout, ROWS, board(hit), center.x + 15, center.y + 20, 0, hit)).toEqual({ row: 4, col: 6 })
+  })
+
+  it('snaps to the top row under the shot when it reaches the ceiling', () => {
+    expect(snapCell(layout, ROWS, board(), 40 + 3 * 40 + 5, 20, 0, null)).toEqual({ row: 0, col: 3 })
+    expect(snapCell(layout, ROWS, board({ row: 0, col: 3 }), 40 + 3 * 40 + 5, 20, 0, null)).toEqual({ row: 0, col: 4 })
+  })
+
+  it('accounts for the ceiling offset', () => {
+    const hit = { row: 2, col: 5 }
+    const center = cellCenter(layout, hit, 30)
+    expect(snapCell(layout, ROWS, board(hit), center.x - 15, center.y + 20, 30, hit)).toEqual({ row: 3, col: 4 })
+  })
+
+  it('falls back to the nearest empty cell when every neighbor is taken', () => {
+    const hit = { row: 2, col: 5 }
+    const isEmpty = board(hit, ...neighbors(layout, ROWS, hit))
+    const center = cellCenter(layout, hit)
+    const cell = snapCell(layout, ROWS, isEmpty, center.x, center.y + 20, 0, hit)
+    expect(cell).not.toBeNull()
+    expect(distance(hit, cell!)).toBe(2)
+    expect(isEmpty(cell!)).toBe(true)
+  })
+
+  it('gives up when the board is full', () => {
+    expect(snapCell(layout, 2, () => false, 100, 50, 0, { row: 0, col: 1 })).toBeNull()
+  })
+})
@@ -0,0 +1,156 @@
+// Geometry for the bubble grid. Rows are horizontal and odd rows are pushed half a cell to
+// the right and hold one cell fewer ("odd-r" offset layout), so every cell has up to six
+// neighbors. Conversions go through cube coordinates, where rounding and distance are exact.
+
+export interface HexLayout {
+  // Distance between neighboring cell centers in a row
+  spacing: number
+  // Vertical distance between rows
+  rowHeight: number
+  // Center of cell (0, 0) with no ceiling offset
+  originX: number
+  originY: number
+  cols: number
+}
+
+export interface Cell {
+  row: number
+  col: number
+}
+
+interface Cube {
+  x: number
+  y: number
+  z: number
+}
+
+const EVEN_ROW_NEIGHBORS: [number, number][] = [[-1, -1], [-1, 0], [0, -1], [0, 1], [1, -1], [1, 0]]
+const ODD_ROW_NEIGHBORS: [number, number][] = [[-1, 0], [-1, 1], [0, -1], [0, 1], [1, 0], [1, 1]]
+
+export function rowLength(row: number, cols: number): number {
+  return row % 2 === 0 ? cols : cols - 1
+}
+
+export function isInside(layout: HexLayout, rows: number, cell: Cell): boolean {
+  return cell.row >= 0 && cell.row < rows && cell.col >= 0 && cell.col < rowLength(cell.row, layout.cols)
+}
+
+export function cellCenter(layout: HexLayout, cell: Cell, rowOffset: number = 0): { x: number; y: number } {
+  const shift = cell.row % 2 === 0 ? 0 : layout.spacing / 2
+  return {
+    x: layout.originX + shift + cell.col * layout.spacing,
+    y: layout.originY + cell.row * layout.rowHeight + rowOffset
+  }
+}
+
+function offsetToCube(cell: Cell): Cube {
+  const x = cell.col - (cell.row - (cell.row & 1)) / 2
+  const z = cell.row
+  return { x, y: -x - z, z }
+}
+
+function cubeToOffset(cube: Cube): Cell {
+  return { row: cube.z, col: cube.x + (cube.z - (cube.z & 1)) / 2 }
+}
+
+function roundCube(x: number, y: number, z: number): Cube {
+  let rx = Math.round(x)
+  let ry = Math.round(y)
+  let rz = Math.round(z)
+  const dx = Math.abs(rx - x)
+  const dy = Math.abs(ry - y)
+  const dz = Math.abs(rz - z)
+
+  // Fix whichever axis drifted furthest so the coordinates still sum to zero
+  if (dx > dy && dx > dz) {
+    rx = -ry - rz
+  } else if (dy > dz) {
+    ry = -rx - rz
+  } else {
+    rz = -rx - ry
+  }
+  return { x: rx + 0, y: ry + 0, z: rz + 0 }
+}
+
+// The cell whose hexagon contains the point. May lie outside the board.
+export function pixelToCell(layout: HexLayout, x: number, y: number, rowOffset: number = 0): Cell {
+  const z = (y - layout.originY - rowOffset) / layout.rowHeight
+  const q = (x - layout.originX) / layout.spacing - z / 2
+  return cubeToOffset(roundCube(q, -q - z, z))
+}
+
+export function neighbors(layout: HexLayout, rows: number, cell: Cell): Cell[] {
+  const offsets = cell.row % 2 === 0 ? EVEN_ROW_NEIGHBORS : ODD_ROW_NEIGHBORS
+  const result: Cell[] = []
+  for (const [dr, dc] of offsets) {
+    const neighbor = { row: cell.row + dr, col: cell.col + dc }
+    if (isInside(layout, rows, neighbor)) {
+      result.push(neighbor)
+    }
+  }
+  return result
+}
+
+// Number of steps between two cells
+export function distance(a: Cell, b: Cell): number {
+  const ca = offsetToCube(a)
+  const cb = offsetToCube(b)
+  return Math.max(Math.abs(ca.x - cb.x), Math.abs(ca.y - cb.y), Math.abs(ca.z - cb.z))
+}
+
+// Where a shot at (x, y) settles after touching `hit` (or the ceiling when hit is null): the
+// empty cell next to it that is closest to the shot. Falls back to the nearest empty cell on
+// the board if the usual candidates are all taken.
+export function snapCell(
+  layout: HexLayout,
+  rows: number,
+  isEmpty: (cell: Cell) => boolean,
+  x: number,
+  y: number,
+  rowOffset: number,
+  hit: Cell | null
+): Cell | null {
+  let candidates: Cell[]
+  if (hit) {
+    candidates = neighbors(layout, rows, hit)
+  } else {
+    candidates = []
+    for (let col = 0; col < rowLength(0, layout.cols); col++) {
+      candidates.push({ row: 0, col })
+    }
+  }
+
+  const closest = closestEmpty(layout, candidates.filter(isEmpty), x, y, rowOffset)
+  if (closest) return closest
+
+  // Widen the search ring by ring around the shot until an empty cell turns up
+  const origin = pixelToCell(layout, x, y, rowOffset)
+  for (let radius = 0; radius < rows + layout.cols; radius++) {
+    const ring: Cell[] = []
+    for (let row = origin.row - radius; row <= origin.row + radius; row++) {
+      for (let col = 0; col < rowLength(row, layout.cols); col++) {
+        const cell = { row, col }
+        if (isInside(layout, rows, cell) && distance(origin, cell) === radius && isEmpty(cell)) {
+          ring.push(cell)
+        }
+      }
+    }
+    const found = closestEmpty(layout, ring, x, y, rowOffset)
+    if (found) return found
+  }
+  return null
+}
+
+function closestEmpty(layout: HexLayout, cells: Cell[], x: number, y: number, rowOffset: number): Cell | null {
+  let best: Cell | null = null
+  let bestDistance = Infinity
+  for (const cell of cells) {
+    const center = cellCenter(layout, cell, rowOffset)
+    const d = (center.x - x) * (center.x - x) + (center.y - y) * (center.y - y)
+    if (d < bestDistance) {
+      best = cell
+      bestDistance = d
+    }
+  }
+  return best
+}
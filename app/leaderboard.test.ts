@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest'
+import {
+  addEndlessRun,
+  addLevelResult,
+  addRun,
+  emptyLeaderboard,
+  Leaderboard,
+  LEADERBOARD_SIZE,
+  LeaderboardEntry,
+  mergeLeaderboards,
+  parseLeaderboard,
+  renameRun
+} from './leaderboard'
+
+function entry(runId: string, score: number, overrides: Partial<LeaderboardEntry> = {}): LeaderboardEntry {
+  return { runId, name: 'Player', score, date: 1000, seed: 7, maxCombo: 2, accuracy: 0.5, level: 1, ...overrides }
+}
+
+describe('leaderboard tables', () => {
+  it('keeps only the top scores', () => {
+    let board = emptyLeaderboard()
+    for (let i = 0; i < LEADERBOARD_SIZE + 3; i++) {
+      board = addRun(board, entry(`run${i}`, i * 100))
+    }
+    expect(board.runs).toHaveLength(LEADERBOARD_SIZE)
+    expect(board.runs[0].score).toBe((LEADERBOARD_SIZE + 2) * 100)
+    expect(board.runs.map(e => e.runId)).not.toContain('run2')
+    expect(addRun(board, entry('low', 50)).runs).toEqual(board.runs)
+  })
+
+  it('gives ties to the earlier entry', () => {
+    const board = addRun(addRun(emptyLeaderboard(), entry('late', 500, { date: 2000 })), entry('early', 500, { date: 1000 }))
+    expect(board.runs.map(e => e.runId)).toEqual(['early', 'late'])
+  })
+
+  it('files level results under their level', () => {
+    const board = addLevelResult(addLevelResult(emptyLeaderboard(), entry('a', 300, { level: 2 })), entry('b', 100, { level: 4 }))
+    expect(Object.keys(board.levels)).toEqual(['2', '4'])
+    expect(board.runs).toEqual([])
+  })
+})
+
+describe('renameRun', () => {
+  it('renames every entry of the run and nothing else', () => {
+    let board = emptyLeaderboard()
+    board = addRun(board, entry('mine', 900))
+    board = addRun(board, entry('other', 800))
+    board = addLevelResult(board, entry('mine', 400, { level: 1 }))
+    board = addLevelResult(board, entry('other', 300, { level: 1 }))
+    board = addLevelResult(board, entry('mine', 200, { level: 2 }))
+    board = addEndlessRun(board, entry('other', 100))
+
+    const renamed = renameRun(board, 'mine', 'Ada')
+    const names = (entries: LeaderboardEntry[]) => entries.map(e => `${e.runId}:${e.name}`)
+    expect(names(renamed.runs)).toEqual(['mine:Ada', 'other:Player'])
+    expect(names(renamed.levels[1])).toEqual(['mine:Ada', 'other:Player'])
+    expect(names(renamed.levels[2])).toEqual(['mine:Ada'])
+    expect(names(renamed.endless)).toEqual(['other:Player'])
+    expect(board.runs[0].name).toBe('Player')
+  })
+})
+
+describe('mergeLeaderboards', () => {
+  it('counts an entry that is already on the board only once', () => {
+    const board = addLevelResult(addRun(emptyLeaderboard(), entry('a', 900)), entry('a', 400))
+    const merged = mergeLeaderboards(board, board)
+    expect(merged.runs).toHaveLength(1)
+    expect(merged.levels[1]).toHaveLength(1)
+  })
+
+  it('adds entries from other runs and keeps the top scores', () => {
+    let board = emptyLeaderboard()
+    let imported = emptyLeaderboard()
+    for (let i = 0; i < LEADERBOARD_SIZE; i++) {
+      board = addRun(board, entry(`local${i}`, 100 + i))
+      imported = addRun(imported, entry(`imported${i}`, 200 + i))
+    }
+    imported = addEndlessRun(imported, entry('endless', 50))
+    imported = addLevelResult(imported, entry('imported0', 300, { level: 3 }))
+
+    const merged = mergeLeaderboards(board, imported)
+    expect(merged.runs).toEqual(imported.runs)
+    expect(merged.endless).toEqual(imported.endless)
+    expect(merged.levels[3]).toEqual(imported.levels[3])
+  })
+
+  it('keeps two runs with the same score apart', () => {
+    const merged = mergeLeaderboards(addRun(emptyLeaderboard(), entry('a', 500)), addRun(emptyLeaderboard(), entry('b', 500)))
+    expect(merged.runs.map(e => e.runId)).toEqual(['a', 'b'])
+  })
+})
+
+describe('parseLeaderboard', () => {
+  const valid: Leaderboard = {
+    runs: [entry('a', 900)],
+    levels: { 1: [entry('a', 400)] },
+    endless: [entry('b', 700, { rows: 12 })]
+  }
+
+  it('reads an exported board back', () => {
+    expect(parseLeaderboard(JSON.stringify(valid))).toEqual(valid)
+  })
+
+  it('accepts files from before endless mode', () => {
+    const { endless: _, ...old } = valid
+    expect(parseLeaderboard(JSON.stringify(old)).endless).toEqual([])
+  })
+
+  it('rejects malformed files', () => {
+    const parse = (value: unknown) => () => parseLeaderboard(JSON.stringify(value))
+    expect(() => parseLeaderboard('{')).toThrow(/Invalid JSON/)
+    expect(parse([])).toThrow(/"runs" and "levels"/)
+    expect(parse({ runs: [] })).toThrow(/"runs" and "levels"/)
+    expect(parse({ ...valid, runs: [{ ...entry('a', 1), score: '1' }] })).toThrow(/run entry/)
+    expect(parse({ ...valid, runs: [{ runId: 'a', name: 'x' }] })).toThrow(/run entry/)
+    expect(parse({ ...valid, endless: [{ ...entry('a', 1), rows: 'many' }] })).toThrow(/endless entry/)
+    expect(parse({ ...valid, endless: {} })).toThrow(/endless entry/)
+    expect(parse({ ...valid, levels: { one: [] } })).toThrow(/level one/)
+    expect(parse({ ...valid, levels: { 1: [{ ...entry('a', 1), runId: 3 }] } })).toThrow(/level 1/)
+  })
+})
@@ -0,0 +1,170 @@
+import { downloadFile } from './download'
+import { isRecord } from './guards'
+
+// Local high scores: the best whole runs, the best result on each level, and the best endless
+// runs. Entries from the same run share a runId so the name typed in at the end of a run applies
+// to all of them.
+
+export const LEADERBOARD_SIZE = 10
+
+export interface LeaderboardEntry {
+  runId: string
+  name: string
+  score: number
+  // Milliseconds since the epoch
+  date: number
+  seed: number
+  maxCombo: number
+  // Share of shots that popped something, from 0 to 1
+  accuracy: number
+  // Level reached for runs, or the level itself for per-level entries; difficulty level in endless
+  level: number
+  // Endless runs only: rows pushed in before the board reached the shooter
+  rows?: number
+}
+
+export interface Leaderboard {
+  runs: LeaderboardEntry[]
+  // Keyed by level number
+  levels: { [level: number]: LeaderboardEntry[] }
+  endless: LeaderboardEntry[]
+}
+
+export type LeaderboardMetric = 'score' | 'maxCombo' | 'accuracy' | 'date'
+
+export const METRIC_LABELS: Record<LeaderboardMetric, string> = {
+  score: 'Score',
+  maxCombo: 'Max combo',
+  accuracy: 'Accuracy',
+  date: 'Most recent'
+}
+
+const STORAGE_KEY = 'colorBurst.leaderboard'
+const NAME_KEY = 'colorBurst.playerName'
+const MAX_NAME_LENGTH = 16
+
+export function emptyLeaderboard(): Leaderboard {
+  return { runs: [], levels: {}, endless: [] }
+}
+
+export function accuracy(shots: number, matchedShots: number): number {
+  return shots === 0 ? 0 : matchedShots / shots
+}
+
+// Highest first; ties go to the earlier entry
+export function sortEntries(entries: LeaderboardEntry[], metric: LeaderboardMetric): LeaderboardEntry[] {
+  return [...entries].sort((a, b) => b[metric] - a[metric] || a.date - b.date)
+}
+
+// Tables always keep the top scores; other metrics only change how they're shown
+function insertEntry(entries: LeaderboardEntry[], entry: LeaderboardEntry): LeaderboardEntry[] {
+  return sortEntries([...entries, entry], 'score').slice(0, LEADERBOARD_SIZE)
+}
+
+export function addRun(board: Leaderboard, entry: LeaderboardEntry): Leaderboard {
+  return { ...board, runs: insertEntry(board.runs, entry) }
+}
+
+export function addEndlessRun(board: Leaderboard, entry: LeaderboardEntry): Leaderboard {
+  return { ...board, endless: insertEntry(board.endless, entry) }
+}
+
+export function addLevelResult(board: Leaderboard, entry: LeaderboardEntry): Leaderboard {
+  return { ...board, levels: { ...board.levels, [entry.level]: insertEntry(board.levels[entry.level] ?? [], entry) } }
+}
+
+export function renameRun(board: Leaderboard, runId: string, name: string): Leaderboard {
+  const rename = (entries: LeaderboardEntry[]) => entries.map(entry => (entry.runId === runId ? { ...entry, name } : entry))
+  const levels: Leaderboard['levels'] = {}
+  for (const [level, entries] of Object.entries(board.levels)) {
+    levels[Number(level)] = rename(entries)
+  }
+  return { runs: rename(board.runs), levels, endless: rename(board.endless) }
+}
+
+export function cleanName(name: string): string {
+  return name.trim().slice(0, MAX_NAME_LENGTH) || 'Player'
+}
+
+function isEntry(value: unknown): value is LeaderboardEntry {
+  return (
+    isRecord(value) &&
+    typeof value.runId === 'string' &&
+    typeof value.name === 'string' &&
+    ['score', 'date', 'seed', 'maxCombo', 'accuracy', 'level'].every(key => typeof value[key] === 'number') &&
+    (value.rows === undefined || typeof value.rows === 'number')
+  )
+}
+
+function isEntryList(value: unknown): value is LeaderboardEntry[] {
+  return Array.isArray(value) && value.every(isEntry)
+}
+
+export function parseLeaderboard(source: string): Leaderboard {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(source)
+  } catch (e) {
+    throw new Error(`Invalid JSON: ${(e as Error).message}`)
+  }
+  if (!isRecord(parsed) || !Array.isArray(parsed.runs) || !isRecord(parsed.levels)) {
+    throw new Error('Leaderboard files need "runs" and "levels"')
+  }
+  if (!isEntryList(parsed.runs)) {
+    throw new Error('A run entry is missing fields')
+  }
+  // Files exported before endless mode have no endless table
+  const endless = parsed.endless ?? []
+  if (!isEntryList(endless)) {
+    throw new Error('An endless entry is missing fields')
+  }
+
+  const board: Leaderboard = { runs: parsed.runs, levels: {}, endless }
+  for (const [level, entries] of Object.entries(parsed.levels)) {
+    if (!Number.isInteger(Number(level)) || !isEntryList(entries)) {
+      throw new Error(`Entries for level ${level} are invalid`)
+    }
+    board.levels[Number(level)] = entries
+  }
+  return board
+}
+
+// Imported entries compete with the existing ones; the same entry is never counted twice
+export function mergeLeaderboards(board: Leaderboard, imported: Leaderboard): Leaderboard {
+  const key = (entry: LeaderboardEntry) => `${entry.runId}:${entry.level}:${entry.score}`
+  const merge = (current: LeaderboardEntry[], incoming: LeaderboardEntry[]) => {
+    const seen = new Set(current.map(key))
+    return incoming.filter(entry => !seen.has(key(entry))).reduce(insertEntry, current)
+  }
+
+  const levels = { ...board.levels }
+  for (const [level, entries] of Object.entries(imported.levels)) {
+    levels[Number(level)] = merge(levels[Number(level)] ?? [], entries)
+  }
+  return { runs: merge(board.runs, imported.runs), levels, endless: merge(board.endless, imported.endless) }
+}
+
+export function loadLeaderboard(): Leaderboard {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY)
+    return raw ? parseLeaderboard(raw) : emptyLeaderboard()
+  } catch {
+    return emptyLeaderboard()
+  }
+}
+
+export function saveLeaderboard(board: Leaderboard) {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(board))
+}
+
+export function loadPlayerName(): string {
+  return window.localStorage.getItem(NAME_KEY) ?? 'Player'
+}
+
+export function savePlayerName(name: string) {
+  window.localStorage.setItem(NAME_KEY, name)
+}
+
+export function downloadLeaderboard(board: Leaderboard) {
+  downloadFile('color-burst-leaderboard.json', JSON.stringify(board, null, 2))
+}
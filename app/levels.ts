@@ -0,0 +1,238 @@
+import type { BubbleColor, LevelConfig } from './types'
+
+export const COLORS: BubbleColor[] = ['red', 'blue', 'green', 'yellow', 'purple', 'orange', 'cyan', 'pink']
+export const POWER_UPS: BubbleColor[] = ['rainbow', 'bomb', 'freeze']
+
+export const LEVELS: LevelConfig[] = [
+  {
+    colors: 3, speed: 1, hasPowerUps: false, hasObstacles: false,
+    patterns: [[
+      'R R R R R B B B B B G G G G G',
+      ' R R R R R B B B B G G G G G',
+      'R R R R R B B B B B G G G G G',
+      ' R R R R R B B B B G G G G G',
+      'R R R R R B B B B B G G G G G'
+    ]]
+  },
+  {
+    colors: 4, speed: 1.1, hasPowerUps: false, hasObstacles: false,
+    patterns: [[
+      '? ? ? ? ? ? ? ? ? ? ? ? ? ? ?',
+      ' ? ? ? ? ? ? ? ? ? ? ? ? ? ?',
+      '. ? ? ? ? ? ? ? ? ? ? ? ? ? .',
+      ' . ? ? ? ? ? ? ? ? ? ? ? ? .',
+      '. . ? ? ? ? ? ? ? ? ? ? ? . .',
+      ' . . ? ? ? ? ? ? ? ? ? ? . .'
+    ]]
+  },
+  {
+    colors: 4, speed: 1.2, hasPowerUps: false, hasObstacles: false,
+    patterns: [[
+      'R R B B G G Y Y R R B B G G Y',
+      ' B B G G Y Y R R B B G G Y Y',
+      'G G Y Y R R B B G G Y Y R R B',
+      ' Y Y R R B B G G Y Y R R B B',
+      'R R B B G G Y Y R R B B G G Y',
+      ' B . G G . Y R . B B . G Y .'
+    ]]
+  },
+  {
+    colors: 5, speed: 1.3, hasPowerUps: false, hasObstacles: false,
+    patterns: [[
+      '? ? ? . ? ? ? . ? ? ? . ? ? ?',
+      ' ? ? ? . ? ? ? . ? ? ? . ? ?',
+      '? ? ? . ? ? ? . ? ? ? . ? ? ?',
+      ' ? ? ? . ? ? ? . ? ? ? . ? ?',
+      '? ? ? . ? ? ? . ? ? ? . ? ? ?',
+      ' ? ? ? . ? ? ? . ? ? ? . ? ?'
+    ]]
+  },
+  {
+    colors: 5, speed: 1.4, hasPowerUps: false, hasObstacles: false, rowSpeed: 0.05,
+    patterns: [[
+      '. . . . . ? ? ? ? ? . . . . .',
+      ' . . . . ? ? ? ? ? ? . . . .',
+      '. . . ? ? ? ? ? ? ? ? ? . . .',
+      ' . . ? ? ? ? ? ? ? ? ? ? . .',
+      '. . . ? ? ? ? ? ? ? ? ? . . .',
+      ' . . . . ? ? ? ? ? ? . . . .',
+      '. . . . . ? ? ? ? ? . . . . .'
+    ]]
+  },
+  {
+    colors: 5, speed: 1.5, hasPowerUps: true, hasObstacles: false, rowSpeed: 0.08,
+    patterns: [[
+      '? ? ? ? . ? ? ? ? . ? ? ? ? .',
+      ' ? ? ? . ? ? ? ? . ? ? ? ? .',
+      '? ? . * ? ? ? * ? ? ? * . ? ?',
+      ' ? . ? ? ? ? . ? ? ? ? . ? ?',
+      '. ? ? ? ? . ? ? ? ? . ? ? ? ?',
+      ' ? ? ? ? . ? ? ? ? . ? ? ? ?'
+    ]]
+  },
+  {
+    colors: 6, speed: 1.6, hasPowerUps: true, hasObstacles: false, rowSpeed: 0.1,
+    patterns: [[
+      '? ? ? ? ? ? ? ? ? ? ? ? ? ? ?',
+      ' ? ? ? ? ? ? ? ? ? ? ? ? ? ?',
+      '? ? ? ? . . ? ? ? . . ? ? ? ?',
+      ' ? ? ? ? . . ? ? . . ? ? ? ?',
+      '? ? ? ? . . ? ? ? . . ? ? ? ?',
+      ' ? ? ? ? . . . . . . ? ? ? ?',
+      '? ? ? ? . . . . . . . ? ? ? ?'
+    ]]
+  },
+  {
+    colors: 6, speed: 1.7, hasPowerUps: true, hasObstacles: false, rowSpeed: 0.12,
+    patterns: [[
+      '? ? . . . . . . . . . . . ? ?',
+      ' ? ? ? . . . . . . . . ? ? ?',
+      '? ? ? ? . . . . . . . ? ? ? ?',
+      ' ? ? ? ? ? . . . . ? ? ? ? ?',
+      '? ? ? ? ? ? . . . ? ? ? ? ? ?',
+      ' ? ? ? ? ? ? ? ? ? ? ? ? ? ?'
+    ]]
+  },
+  {
+    colors: 6, speed: 1.8, hasPowerUps: true, hasObstacles: true, rowSpeed: 0.15,
+    patterns: [[
+      '? ? ? ? ? ? ? ? ? ? ? ? ? ? ?',
+      ' ? ? . ? ? . ? ? . ? ? . ? ?',
+      '? ? ? ? ? ? ? ? ? ? ? ? ? ? ?',
+      ' ? ? . P2 ? . ? ? . ? ? . ? ?',
+      '? ? ? ? ? ? ? ? ? ? ? ? ? ? ?',
+      ' ? ? . ? ? . ? # . ? ? . ? ?'
+    ]]
+  },
+  {
+    colors: 6, speed: 1.9, hasPowerUps: true, hasObstacles: true, rowSpeed: 0.18,
+    patterns: [[
+      '? ? ? ? ? ? ? ? ? ? ? ? ? ? ?',
+      ' ? ? ? ? ? ? ? ? ? ? ? ? ? ?',
+      '? ? ? . . . . . . . . . ? ? ?',
+      ' ? ? ? . . . . . . . . ? ? ?',
+      '? ? ? . . . . . . . . . ? ? ?',
+      ' ? ? ? . . . . . . . . # ? ?',
+      '? ? ? . . . . . . . . . ? ? ?'
+    ]]
+  },
+  {
+    colors: 7, speed: 2, hasPowerUps: true, hasObstacles: true, rowSpeed: 0.2, swaps: 12,
+    patterns: [[
+      '? ? ? ? ? ? ? ? ? ? ? ? ? ? ?',
+      ' ? ? ? ? ? ? ? ? ? ? ? P2 ? ?',
+      '? . . . . . . ? . . . . . . ?',
+      ' ? ? ? ? ? ? ? ? ? ? ? ? ? ?',
+      '? # ? ? ? ? R2 ? ? ? ? ? ? ? ?',
+      ' ? . . . . . . ? . . . . . ?',
+      '? ? ? ? ? ? ? ? ? ? ? ? ? ? ?'
+    ]]
+  },
+  {
+    colors: 7, speed: 2.1, hasPowerUps: true, hasObstacles: true, rowSpeed: 0.22, swaps: 12,
+    patterns: [[
+      '? ? ? ? ? ? ? ? ? ? ? ? ? ? ?',
+      ' ? ? ? . . . . . . . . ? ? ?',
+      '. ? ? ? . . . . . . . ? ? ? .',
+      ' . . ? ? ? . . . . ? ? ? . .',
+      '. . . ? ? ? . . . ? ? ? . . .',
+      ' . . . . ? B& ? ? ? ? . . . .',
+      '. . . . . ? ? ? ? ? . . . . .'
+    ]]
+  },
+  {
+    colors: 7, speed: 2.2, hasPowerUps: true, hasObstacles: true, rowSpeed: 0.25, swaps: 12,
+    patterns: [[
+      '? ? ? ? ? ? ? R2 ? ? ? ? ? ? ?',
+      ' ? . ? ? . ? ? . ? ? . ? ? .',
+      '? . ? ? . ? ? . ? ? . ? ? . ?',
+      ' ? . ? ? . ? ? . ? ? . ? O& .',
+      '? . ? ? . ? ? . ? ? . ? ? . ?',
+      ' ? . B2 ? . ? ? . ? ? . ? ? .',
+      '? . ? ? . ? ? . R& ? . ? ? . ?'
+    ]]
+  },
+  {
+    colors: 7, speed: 2.3, hasPowerUps: true, hasObstacles: true, timeLimit: 180, rowSpeed: 0.28, swaps: 12,
+    patterns: [[
+      '? ? ? ? ? ? ? ? ? ? ? ? O2 ? ?',
+      ' ? ? ? ? ? ? ? ? ? ? ? ? ? ?',
+      '? ? ? ? ? ? # ? ? ? ? ? ? ? ?',
+      ' P& ? ? ? ? ? ? ? ? ? ? ? ? ?',
+      'Y& ? ? ? ? ? ? ? ? ? P2 ? ? ? ?',
+      ' ? ? ? ? ? ? O& ? ? ? ? ? ? ?',
+      '? ? ? ? # ? ? ? ? ? ? ? P& ? ?'
+    ]]
+  },
+  {
+    colors: 8, speed: 2.4, hasPowerUps: true, hasObstacles: true, rowSpeed: 0.3, swaps: 10,
+    patterns: [[
+      '? ? O3 ? ? ? ? O2 ? ? Y2 ? ? ? ?',
+      ' ? ? ? ? ? C& ? ? ? ? ? ? ? ?',
+      'G& . ? ? . ? ? . ? ? . ? ? . ?',
+      ' . ? ? . ? ? . ? ? . ? ? . ?',
+      '? ? . ? ? . ? ? . ? ? . ? ? .',
+      ' ? . ? ? . ? ? . ? ? . ? O2 .',
+      '. ? ? . ? ? . ? ? . ? ? . ? ?'
+    ]]
+  },
+  {
+    colors: 8, speed: 2.5, hasPowerUps: true, hasObstacles: true, rowSpeed: 0.32, swaps: 10,
+    patterns: [[
+      '? ? ? O& ? ? ? ? ? ? ? ? ? ? ?',
+      ' . . ? ? ? R& ? ? ? ? G3 ? . .',
+      '. . . . ? ? ? ? ? ? ? . . . .',
+      ' . . . . . . R& ? . . . . . .',
+      '. . . . ? ? # ? ? ? ? . . . .',
+      ' . . ? ? ? ? ? ? ? ? ? O& . .',
+      '? ? K& ? ? ? ? B& ? ? ? ? ? ? ?'
+    ]]
+  },
+  {
+    colors: 8, speed: 2.6, hasPowerUps: true, hasObstacles: true, rowSpeed: 0.35, swaps: 10,
+    patterns: [[
+      '? ? ? ? ? ? Y3 ? ? ? P2 ? ? ? ?',
+      ' . ? ? # ? ? . . ? ? ? ? C& .',
+      '. . ? # ? . . . . . ? ? ? . .',
+      ' . . . ? . . . . . . ? . . .',
+      '. . ? ? ? . . . . . ? ? ? . .',
+      ' . ? ? ? ? ? . . ? ? ? ? # .',
+      '. . ? C3 ? . . . . . R3 ? ? . .'
+    ]]
+  },
+  {
+    colors: 8, speed: 2.7, hasPowerUps: true, hasObstacles: true, rowSpeed: 0.38, swaps: 8,
+    patterns: [[
+      'Y2 ? ? ? ? ? B3 ? ? ? ? ? ? ? ?',
+      ' ? # # P2 ? ? ? ? ? ? ? ? ? ?',
+      '? ? ? ? ? ? ? ? ? . . . ? ? ?',
+      ' ? ? O2 ? ? ? # ? . . . . . .',
+      '. ? ? Y& ? ? ? . . . . . . . .',
+      ' . . ? ? ? # . . . . . . . .'
+    ]]
+  },
+  {
+    colors: 8, speed: 2.8, hasPowerUps: true, hasObstacles: true, rowSpeed: 0.4, swaps: 8,
+    patterns: [[
+      '? C2 ? ? ? ? R& ? ? ? ? ? ? ? ?',
+      ' ? ? ? O& ? ? ? ? ? ? ? ? ? ?',
+      '? ? . . . . . K& . . . . . ? O3',
+      ' ? # . . . . ? ? . . . . ? ?',
+      '? ? . . # R2 ? ? ? K2 ? . . ? ?',
+      ' ? ? . . ? ? ? ? ? # . . ? ?',
+      '? ? . . ? ? ? ? ? B& ? . . ? ?'
+    ]]
+  },
+  {
+    colors: 8, speed: 3, hasPowerUps: true, hasObstacles: true, rowSpeed: 0.5, swaps: 8,
+    patterns: [[
+      '? ? ? ? ? P3 ? ? ? ? ? ? ? ? ?',
+      ' R3 ? ? K2 ? ? ? ? ? # ? ? ? ?',
+      '? ? ? ? ? ? ? ? ? ? ? ? ? ? ?',
+      ' ? ? ? ? ? ? ? ? ? ? ? R& ? #',
+      '? K3 # ? ? P3 ? ? ? ? ? ? ? ? B&',
+      ' O& ? ? P2 ? ? ? B& ? ? # ? P2 #',
+      '? ? ? ? # ? K& ? R2 ? ? C3 # ? ?'
+    ]]
+  }
+]
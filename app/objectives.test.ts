@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest'
+import { checkLoseCondition, checkObjective, isLoseCondition, isObjective, LevelState } from './objectives'
+import type { Bubble, BubbleColor } from './types'
+
+function bubble(color: BubbleColor, row: number, col: number): Bubble {
+  return { x: 0, y: 0, color, row, col, radius: 20 }
+}
+
+function state(overrides: Partial<LevelState> = {}): LevelState {
+  return {
+    bubbles: [],
+    levelScore: 0,
+    taggedFreed: 0,
+    timeRemaining: null,
+    shotsRemaining: null,
+    settled: true,
+    pastLine: false,
+    ...overrides
+  }
+}
+
+describe('objectives', () => {
+  it('clearBoard counts every breakable bubble left', () => {
+    const bubbles = [[bubble('red', 0, 0), null], [null, bubble('blue', 1, 1)]]
+    expect(checkObjective({ type: 'clearBoard' }, state({ bubbles }))).toEqual({ label: 'Clear the board: 2 left', done: false })
+    expect(checkObjective({ type: 'clearBoard' }, state({ bubbles: [[null], []] })).done).toBe(true)
+  })
+
+  it('clearBoard and clearTopRow ignore stones', () => {
+    const bubbles = [[bubble('stone', 0, 0), null], [bubble('stone', 1, 0)]]
+    expect(checkObjective({ type: 'clearBoard' }, state({ bubbles })).done).toBe(true)
+    expect(checkObjective({ type: 'clearTopRow' }, state({ bubbles })).done).toBe(true)
+  })
+
+  it('clearTopRow only looks at the top row', () => {
+    const bubbles = [[null, bubble('green', 0, 1)], [bubble('red', 1, 0)]]
+    expect(checkObjective({ type: 'clearTopRow' }, state({ bubbles }))).toEqual({ label: 'Clear the top row: 1 left', done: false })
+    expect(checkObjective({ type: 'clearTopRow' }, state({ bubbles: [[null, null], [bubble('red', 1, 0)]] })).done).toBe(true)
+    expect(checkObjective({ type: 'clearTopRow' }, state()).done).toBe(true)
+  })
+
+  it('freeTagged counts up to the target', () => {
+    const objective = { type: 'freeTagged', count: 3 } as const
+    expect(checkObjective(objective, state({ taggedFreed: 2 }))).toEqual({ label: 'Free tagged bubbles: 2/3', done: false })
+    expect(checkObjective(objective, state({ taggedFreed: 3 })).done).toBe(true)
+    expect(checkObjective(objective, state({ taggedFreed: 5 })).label).toBe('Free tagged bubbles: 3/3')
+  })
+
+  it('score uses the points earned on the level', () => {
+    const objective = { type: 'score', points: 1000 } as const
+    expect(checkObjective(objective, state({ levelScore: 400 }))).toEqual({ label: 'Score: 400/1000', done: false })
+    expect(checkObjective(objective, state({ levelScore: 1000 })).done).toBe(true)
+    expect(checkObjective(objective, state({ levelScore: 1800 })).label).toBe('Score: 1000/1000')
+  })
+})
+
+describe('lose conditions', () => {
+  it('ceiling triggers once a bubble is past the line', () => {
+    expect(checkLoseCondition('ceiling', state())).toBe(false)
+    expect(checkLoseCondition('ceiling', state({ pastLine: true }))).toBe(true)
+  })
+
+  it('outOfTime only triggers on levels with a clock that has run out', () => {
+    expect(checkLoseCondition('outOfTime', state())).toBe(false)
+    expect(checkLoseCondition('outOfTime', state({ timeRemaining: 0.5 }))).toBe(false)
+    expect(checkLoseCondition('outOfTime', state({ timeRemaining: 0 }))).toBe(true)
+  })
+
+  it('outOfShots waits for the last shot to settle', () => {
+    expect(checkLoseCondition('outOfShots', state())).toBe(false)
+    expect(checkLoseCondition('outOfShots', state({ shotsRemaining: 1 }))).toBe(false)
+    expect(checkLoseCondition('outOfShots', state({ shotsRemaining: 0, settled: false }))).toBe(false)
+    expect(checkLoseCondition('outOfShots', state({ shotsRemaining: 0 }))).toBe(true)
+  })
+})
+
+describe('level file checks', () => {
+  it('accepts well-formed objectives only', () => {
+    expect(isObjective({ type: 'clearBoard' })).toBe(true)
+    expect(isObjective({ type: 'freeTagged', count: 2 })).toBe(true)
+    expect(isObjective({ type: 'score', points: 500 })).toBe(true)
+    expect(isObjective({ type: 'freeTagged' })).toBe(false)
+    expect(isObjective({ type: 'score', points: -5 })).toBe(false)
+    expect(isObjective({ type: 'win' })).toBe(false)
+    expect(isObjective('clearBoard')).toBe(false)
+  })
+
+  it('accepts the known lose conditions only', () => {
+    expect(isLoseCondition('outOfShots')).toBe(true)
+    expect(isLoseCondition('outOfLives')).toBe(false)
+    expect(isLoseCondition(3)).toBe(false)
+  })
+})
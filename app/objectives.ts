@@ -0,0 +1,122 @@
+import { isInteger, isRecord } from './guards'
+import type { Bubble } from './types'
+
+// Win and lose conditions. A level lists the objectives that clear it, and every one has to be
+// met; levels that don't list any have to clear the board. It can also list the lose conditions
+// that apply to it, each of which costs a life; levels that don't are subject to all of them, and
+// the time and shot conditions only ever trigger on levels with a time or shot limit.
+
+export type Objective =
+  | { type: 'clearBoard' }
+  // Pop or drop this many tagged bubbles
+  | { type: 'freeTagged'; count: number }
+  | { type: 'clearTopRow' }
+  // Points earned on the level itself
+  | { type: 'score'; points: number }
+
+// `ceiling` is the board reaching the loss line, whether the ceiling or stacked shots brought it there
+export type LoseCondition = 'ceiling' | 'outOfTime' | 'outOfShots'
+
+// What the conditions get to see of the level in play
+export interface LevelState {
+  bubbles: (Bubble | null)[][]
+  levelScore: number
+  taggedFreed: number
+  timeRemaining: number | null
+  shotsRemaining: number | null
+  // No shot in flight and nothing still popping
+  settled: boolean
+  // A bubble hangs below the loss line
+  pastLine: boolean
+}
+
+export interface ObjectiveProgress {
+  label: string
+  done: boolean
+}
+
+export const DEFAULT_OBJECTIVES: Objective[] = [{ type: 'clearBoard' }]
+
+export const DEFAULT_LOSE_CONDITIONS: LoseCondition[] = ['ceiling', 'outOfTime', 'outOfShots']
+
+// Narrowing for objectives and lose conditions read from level files
+export function isObjective(value: unknown): value is Objective {
+  if (!isRecord(value)) return false
+  switch (value.type) {
+    case 'clearBoard':
+    case 'clearTopRow':
+      return true
+    case 'freeTagged':
+      return isInteger(value.count) && value.count > 0
+    case 'score':
+      return isInteger(value.points) && value.points > 0
+    default:
+      return false
+  }
+}
+
+export function isLoseCondition(value: unknown): value is LoseCondition {
+  return typeof value === 'string' && (DEFAULT_LOSE_CONDITIONS as string[]).includes(value)
+}
+
+export const LOSE_MESSAGES: Record<LoseCondition, string> = {
+  ceiling: 'Too close!',
+  outOfTime: "Time's up!",
+  outOfShots: 'Out of shots!'
+}
+
+type ObjectiveCheck<T extends Objective['type']> = (objective: Extract<Objective, { type: T }>, state: LevelState) => ObjectiveProgress
+
+// Stones can't be broken, so they never count as bubbles left
+function breakable(bubbles: (Bubble | null)[]): number {
+  return bubbles.filter(bubble => bubble && bubble.color !== 'stone').length
+}
+
+const OBJECTIVE_CHECKS: { [T in Objective['type']]: ObjectiveCheck<T> } = {
+  clearBoard: (_, state) => {
+    const left = breakable(state.bubbles.flat())
+    return { label: `Clear the board: ${left} left`, done: left === 0 }
+  },
+  freeTagged: (objective, state) => ({
+    label: `Free tagged bubbles: ${Math.min(state.taggedFreed, objective.count)}/${objective.count}`,
+    done: state.taggedFreed >= objective.count
+  }),
+  clearTopRow: (_, state) => {
+    const left = breakable(state.bubbles[0] ?? [])
+    return { label: `Clear the top row: ${left} left`, done: left === 0 }
+  },
+  score: (objective, state) => ({
+    label: `Score: ${Math.min(state.levelScore, objective.points)}/${objective.points}`,
+    done: state.levelScore >= objective.points
+  })
+}
+
+const LOSE_CHECKS: Record<LoseCondition, (state: LevelState) => boolean> = {
+  ceiling: state => state.pastLine,
+  outOfTime: state => state.timeRemaining === 0,
+  // Waits for the last shot to land and pop, in case it meets the objectives
+  outOfShots: state => state.shotsRemaining === 0 && state.settled
+}
+
+export function checkLoseCondition(condition: LoseCondition, state: LevelState): boolean {
+  return LOSE_CHECKS[condition](state)
+}
+
+export function checkObjective(objective: Objective, state: LevelState): ObjectiveProgress {
+  const check = OBJECTIVE_CHECKS[objective.type] as (objective: Objective, state: LevelState) => ObjectiveProgress
+  return check(objective, state)
+}
+
+// For intro screens, before there's any progress to show
+export function describeObjective(objective: Objective): string {
+  switch (objective.type) {
+    case 'clearBoard':
+      return 'Clear the board'
+    case 'freeTagged':
+      return `Free ${objective.count} tagged bubbles`
+    case 'clearTopRow':
+      return 'Clear the top row'
+    case 'score':
+      return `Score ${objective.points} points`
+  }
+}
@@ -1,25 +1,163 @@
 'use client'
 
-import { useEffect, useRef } from 'react'
+import { useCallback, useEffect, useRef, useState } from 'react'
+import SoundSystem from './audio'
 import BubbleShooter from './BubbleShooter'
+import GameOverlay, { applyGameEvent, INITIAL_VIEW, OverlayView } from './GameOverlay'
+import { DEFAULT_BINDINGS, InputBindings, loadBindings } from './InputController'
+import {
+  accuracy,
+  addEndlessRun,
+  addLevelResult,
+  addRun,
+  cleanName,
+  emptyLeaderboard,
+  Leaderboard,
+  LeaderboardEntry,
+  loadLeaderboard,
+  loadPlayerName,
+  renameRun,
+  saveLeaderboard,
+  savePlayerName
+} from './leaderboard'
+import { LEVELS } from './levels'
+import { PUZZLES } from './puzzles'
+import { emptyProgress, loadProgress, recordEndlessRun, recordGame, recordLevel, saveProgress, SaveData } from './progress'
+import { parseSeed, randomSeed } from './Random'
+import { downloadReplay } from './replayFile'
+import ScreenReaderStatus from './ScreenReaderStatus'
+import { AIM_ASSIST_PRESETS, bubbleStyle, DEFAULT_SETTINGS, GameSettings, loadSettings, saveSettings } from './settings'
 
 export default function Home() {
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const gameRef = useRef<BubbleShooter | null>(null)
+  const soundRef = useRef<SoundSystem | null>(null)
+  const [bindings, setBindings] = useState<InputBindings>(DEFAULT_BINDINGS)
+  const [settings, setSettings] = useState<GameSettings>(DEFAULT_SETTINGS)
+  const [view, setView] = useState<OverlayView>(INITIAL_VIEW)
+  const [seed, setSeed] = useState<number | null>(null)
+  const [progress, setProgress] = useState<SaveData>(emptyProgress)
+  const [leaderboard, setLeaderboard] = useState<Leaderboard>(emptyLeaderboard)
+  const [nameEntry, setNameEntry] = useState<string | null>(null)
+  // Event handlers are registered once, so they read these through refs
+  const leaderboardRef = useRef<Leaderboard>(emptyLeaderboard())
+  const runIdRef = useRef('')
+  const getStatus = useCallback(() => gameRef.current?.status() ?? null, [])
 
   useEffect(() => {
     if (!canvasRef.current) return
 
     const canvas = canvasRef.current
-    const game = new BubbleShooter(canvas)
+    const url = new URL(window.location.href)
+    const seed = parseSeed(url.searchParams.get('seed') ?? '') ?? randomSeed()
+    // Keep the seed in the address bar so a run can be shared and replayed
+    url.searchParams.set('seed', String(seed))
+    window.history.replaceState(null, '', url)
+    setSeed(seed)
+
+    const storedBindings = loadBindings()
+    const storedSettings = loadSettings()
+    setBindings(storedBindings)
+    setSettings(storedSettings)
+    setProgress(loadProgress(LEVELS.length))
+    changeLeaderboard(loadLeaderboard())
+
+    const game = new BubbleShooter(canvas, {
+      seed,
+      bindings: storedBindings,
+      aimAssist: AIM_ASSIST_PRESETS[storedSettings.aimAssist],
+      bubbleStyle: bubbleStyle(storedSettings)
+    })
     gameRef.current = game
+    const sound = new SoundSystem(storedSettings)
+    soundRef.current = sound
+    sound.attach()
+    const unhookSound = game.on(sound.handleEvent)
+    const entry = (score: number, maxCombo: number, level: number, shots: number, matchedShots: number): LeaderboardEntry => ({
+      runId: runIdRef.current,
+      name: loadPlayerName(),
+      score,
+      date: Date.now(),
+      seed,
+      maxCombo,
+      accuracy: accuracy(shots, matchedShots),
+      level
+    })
+
+    const unsubscribe = game.on(event => {
+      setView(previous => applyGameEvent(previous, event))
+      if (event.type === 'stateChange' && event.from === 'menu' && event.to === 'levelIntro') {
+        runIdRef.current = `${Date.now()}-${seed}`
+        setNameEntry(null)
+      } else if (event.type === 'levelComplete' && event.summary.mode === 'campaign') {
+        const { summary } = event
+        updateProgress(previous => recordLevel(previous, summary, LEVELS.length))
+        changeLeaderboard(addLevelResult(
+          leaderboardRef.current,
+          entry(summary.levelScore, summary.maxCombo, summary.level, summary.shots, summary.matchedShots)
+        ))
+      } else if (event.type === 'gameOver' && event.mode !== 'puzzle') {
+        // Puzzles are about solving the board, not the score, so they stay off the tables
+        const run = entry(event.score, event.maxCombo, event.level, event.shots, event.matchedShots)
+        let board: Leaderboard
+        if (event.mode === 'endless') {
+          updateProgress(previous => recordEndlessRun(previous, event))
+          board = addEndlessRun(leaderboardRef.current, { ...run, rows: event.rowsPushed })
+        } else {
+          updateProgress(previous => recordGame(previous, event.won, event.maxCombo))
+          board = addRun(leaderboardRef.current, run)
+        }
+        changeLeaderboard(board)
+        // Ask for a name if anything from this run made one of the tables
+        const runId = runIdRef.current
+        const listed = [board.runs, board.endless, ...Object.values(board.levels)].some(entries => entries.some(e => e.runId === runId))
+        if (listed) setNameEntry(loadPlayerName())
+      }
+    })
     game.start()
 
     return () => {
+      unsubscribe()
+      unhookSound()
+      sound.detach()
       game.stop()
     }
   }, [])
 
+  const updateProgress = (change: (previous: SaveData) => SaveData) => {
+    setProgress(previous => {
+      const next = change(previous)
+      saveProgress(next)
+      return next
+    })
+  }
+
+  const changeLeaderboard = (next: Leaderboard) => {
+    leaderboardRef.current = next
+    setLeaderboard(next)
+    saveLeaderboard(next)
+  }
+
+  const submitName = (name: string) => {
+    const cleaned = cleanName(name)
+    savePlayerName(cleaned)
+    changeLeaderboard(renameRun(leaderboardRef.current, runIdRef.current, cleaned))
+    setNameEntry(null)
+  }
+
+  const changeBindings = (next: InputBindings) => {
+    setBindings(next)
+    gameRef.current?.setBindings(next)
+  }
+
+  const changeSettings = (next: GameSettings) => {
+    setSettings(next)
+    saveSettings(next)
+    gameRef.current?.setAimAssist(AIM_ASSIST_PRESETS[next.aimAssist])
+    gameRef.current?.setBubbleStyle(bubbleStyle(next))
+    soundRef.current?.setSettings(next)
+  }
+
   return (
     <main style={{
       display: 'flex',
@@ -28,18 +166,36 @@ export default function Home() {
       height: '100vh',
       width: '100vw'
     }}>
-      <canvas
-        ref={canvasRef}
-        width={800}
-        height={900}
-        style={{
-          border: '4px solid #ffffff',
-          borderRadius: '10px',
-          boxShadow: '0 8px 32px rgba(0,0,0,0.3)',
-          maxWidth: '100%',
-          maxHeight: '100vh'
-        }}
-      />
+      <div style={{ position: 'relative', lineHeight: 0, width: '100%', height: '100%' }}>
+        <canvas
+          ref={canvasRef}
+          role="img"
+          aria-label="Color Burst game board. The current state is read out below."
+          style={{ width: '100%', height: '100%' }}
+        />
+        <ScreenReaderStatus getStatus={getStatus} bindings={bindings} />
+        <GameOverlay
+          view={view}
+          levelCount={LEVELS.length}
+          puzzles={PUZZLES}
+          endless
+          seed={seed}
+          settings={settings}
+          bindings={bindings}
+          progress={progress}
+          leaderboard={leaderboard}
+          nameEntry={nameEntry}
+          onCommand={command => gameRef.current?.send(command)}
+          onSettingsChange={changeSettings}
+          onBindingsChange={changeBindings}
+          onLeaderboardChange={changeLeaderboard}
+          onSubmitName={submitName}
+          onSaveReplay={() => {
+            const replay = gameRef.current?.replay
+            if (replay) downloadReplay(replay)
+          }}
+        />
+      </div>
     </main>
   )
 }
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest'
+import { LEVELS } from './levels'
+import { formatShotSequence, parseCell, parseLevel, parsePattern, parseShotSequence, PatternError } from './patterns'
+import { PUZZLES } from './puzzles'
+
+const bounds = { rows: 10, cols: 15 }
+
+describe('level flags', () => {
+  it('rejects obstacle tokens when obstacles are off', () => {
+    expect(() => parseCell('#', { ...bounds, obstacles: false })).toThrow(PatternError)
+    expect(() => parseCell('R2', { ...bounds, obstacles: false })).toThrow(PatternError)
+    expect(() => parseCell('R&', { ...bounds, obstacles: false })).toThrow(PatternError)
+    expect(parseCell('R@', { ...bounds, obstacles: false })).toEqual({ color: 'red', tagged: true })
+  })
+
+  it('rejects power-up tokens when power-ups are off', () => {
+    for (const token of ['*', '!', '~']) {
+      expect(() => parseCell(token, { ...bounds, powerUps: false })).toThrow(/power-ups turned off/)
+    }
+    expect(parseCell('*', { ...bounds, powerUps: true })).toEqual({ color: 'rainbow' })
+    expect(parseCell('~', bounds)).toEqual({ color: 'freeze' })
+  })
+
+  it('accepts every built-in level and puzzle under its own flags', () => {
+    for (const level of [...LEVELS, ...PUZZLES]) {
+      for (const pattern of level.patterns) {
+        expect(() => parsePattern(pattern, {
+          ...bounds,
+          colors: level.colors,
+          obstacles: level.hasObstacles,
+          powerUps: level.hasPowerUps
+        })).not.toThrow()
+      }
+    }
+  })
+})
+
+describe('parseLevel', () => {
+  const base = { colors: 3, speed: 1, hasPowerUps: false, hasObstacles: false, patterns: [['R R B@ B@ G . . . . . . . . . .']] }
+
+  it('keeps the puzzle fields', () => {
+    const level = {
+      ...base,
+      name: 'Pair',
+      objectives: [{ type: 'freeTagged', count: 2 }, { type: 'score', points: 100 }],
+      loseConditions: ['outOfShots'],
+      shotSequence: ['blue', 'red'],
+      shotLimit: 4
+    }
+    expect(parseLevel(level, bounds)).toEqual(level)
+    expect(parseLevel(PUZZLES[1], bounds)).toEqual(PUZZLES[1])
+  })
+
+  it('leaves out fields the file leaves out', () => {
+    expect(parseLevel(base, bounds)).toEqual(base)
+  })
+
+  it('rejects malformed puzzle fields', () => {
+    expect(() => parseLevel({ ...base, name: 3 }, bounds)).toThrow(/"name"/)
+    expect(() => parseLevel({ ...base, objectives: [] }, bounds)).toThrow(/"objectives"/)
+    expect(() => parseLevel({ ...base, objectives: [{ type: 'score' }] }, bounds)).toThrow(/"objectives"/)
+    expect(() => parseLevel({ ...base, objectives: [{ type: 'freeTagged', count: 0 }] }, bounds)).toThrow(/"objectives"/)
+    expect(() => parseLevel({ ...base, loseConditions: ['bored'] }, bounds)).toThrow(/"loseConditions"/)
+    expect(() => parseLevel({ ...base, shotSequence: [] }, bounds)).toThrow(/"shotSequence"/)
+    expect(() => parseLevel({ ...base, shotSequence: ['purple'] }, bounds)).toThrow(/"shotSequence"/)
+    expect(() => parseLevel({ ...base, shotSequence: ['bomb'] }, bounds)).toThrow(/"shotSequence"/)
+    expect(() => parseLevel({ ...base, shotLimit: 1.5 }, bounds)).toThrow(/"shotLimit"/)
+  })
+
+  it('rejects a freeTagged objective the board has too few tags for', () => {
+    expect(() => parseLevel({ ...base, objectives: [{ type: 'freeTagged', count: 3 }] }, bounds)).toThrow(/2 tagged bubbles/)
+  })
+})
+
+describe('shot sequences', () => {
+  it('reads and writes cell tokens', () => {
+    expect(parseShotSequence(' R  B * ', { ...bounds, colors: 2 })).toEqual(['red', 'blue', 'rainbow'])
+    expect(formatShotSequence(['red', 'blue', 'rainbow'])).toBe('R B *')
+    expect(parseShotSequence('', bounds)).toEqual([])
+  })
+
+  it('rejects tokens that are not bubbles to shoot', () => {
+    for (const token of ['.', '?', '#', 'R@', 'G']) {
+      expect(() => parseShotSequence(token, { ...bounds, colors: 2 })).toThrow(PatternError)
+    }
+    expect(() => parseShotSequence('!', { ...bounds, powerUps: false })).toThrow(PatternError)
+  })
+})
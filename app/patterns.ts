@@ -0,0 +1,270 @@
+import { isInteger, isRecord, isStringArray } from './guards'
+import { rowLength } from './hexGrid'
+import { DEFAULT_LOSE_CONDITIONS, isLoseCondition, isObjective } from './objectives'
+import type { BubbleColor, LevelConfig, PatternCell } from './types'
+
+// Text format for authored boards: one string per grid row, cells separated by whitespace.
+// Odd rows sit half a bubble to the right and hold one cell fewer, so indenting them
+// by one space keeps the hex layout readable:
+//
+//   'R R B B . . G G'
+//   ' R B ? . . G Y'
+//
+// Tokens:
+//   .            empty cell
+//   R B G Y P O C K
+//                red, blue, green, yellow, purple, orange, cyan, pink
+//   ?            random color from the level palette
+//   * ! ~        rainbow, bomb and freeze power-ups (levels with power-ups only)
+//   #            stone (unbreakable)
+//   R2 .. R9     armored bubble that needs that many matches to pop
+//   R&           chained bubble, locked until a neighbor pops
+//                (these three on levels with obstacles only)
+//   R@           tagged bubble, for puzzles that ask for tagged bubbles to be freed
+
+export const COLOR_CODES: { [code: string]: BubbleColor } = {
+  R: 'red',
+  B: 'blue',
+  G: 'green',
+  Y: 'yellow',
+  P: 'purple',
+  O: 'orange',
+  C: 'cyan',
+  K: 'pink'
+}
+
+export const SPECIAL_CODES: { [code: string]: BubbleColor } = {
+  '*': 'rainbow',
+  '!': 'bomb',
+  '~': 'freeze',
+  '#': 'stone'
+}
+
+// Tokens for the power-ups in SPECIAL_CODES
+export const POWER_UP_CODES = ['*', '!', '~']
+
+export interface PatternBounds {
+  rows: number
+  cols: number
+  // Number of palette colors the level uses; color letters past it are rejected
+  colors?: number
+  // When false, obstacle tokens are rejected
+  obstacles?: boolean
+  // When false, power-up tokens are rejected
+  powerUps?: boolean
+}
+
+export class PatternError extends Error {
+  constructor(message: string, readonly row?: number, readonly col?: number) {
+    super(row === undefined ? message : `Row ${row + 1}${col === undefined ? '' : `, cell ${col + 1}`}: ${message}`)
+    this.name = 'PatternError'
+  }
+}
+
+export function parseCell(token: string, bounds: PatternBounds, row?: number, col?: number): PatternCell {
+  if (token === '.') return null
+  if (token === '?') return { color: 'random' }
+  if (token === '#' && bounds.obstacles === false) {
+    throw new PatternError('Stone "#" is an obstacle, but this level has obstacles turned off', row, col)
+  }
+  if (POWER_UP_CODES.includes(token) && bounds.powerUps === false) {
+    throw new PatternError(`"${token}" (${SPECIAL_CODES[token]}) is a power-up, but this level has power-ups turned off`, row, col)
+  }
+  if (SPECIAL_CODES[token]) return { color: SPECIAL_CODES[token] }
+
+  const match = /^([A-Z])([2-9]|&|@)?$/.exec(token)
+  if (!match || !COLOR_CODES[match[1]]) {
+    throw new PatternError(`Unknown token "${token}"`, row, col)
+  }
+
+  const color = COLOR_CODES[match[1]]
+  const paletteIndex = Object.keys(COLOR_CODES).indexOf(match[1])
+  if (bounds.colors !== undefined && paletteIndex >= bounds.colors) {
+    throw new PatternError(`"${match[1]}" (${color}) is outside this level's ${bounds.colors}-color palette`, row, col)
+  }
+
+  // Tags aren't obstacles, so any level may use them
+  if (match[2] === '@') return { color, tagged: true }
+  if (match[2] && bounds.obstacles === false) {
+    throw new PatternError(`"${token}" is an obstacle, but this level has obstacles turned off`, row, col)
+  }
+  if (match[2] === '&') return { color, chained: true }
+  if (match[2]) return { color, hits: Number(match[2]) }
+  return { color }
+}
+
+export function parsePattern(pattern: string | string[], bounds: PatternBounds): PatternCell[][] {
+  const lines = typeof pattern === 'string' ? pattern.split('\n') : [...pattern]
+  // Trailing blank lines are harmless in hand-written text files
+  while (lines.length > 0 && lines[lines.length - 1].trim() === '') {
+    lines.pop()
+  }
+
+  if (lines.length === 0) {
+    throw new PatternError('Pattern is empty')
+  }
+  if (lines.length > bounds.rows) {
+    throw new PatternError(`Pattern has ${lines.length} rows but the board only has ${bounds.rows}`)
+  }
+
+  return lines.map((line, row) => {
+    const tokens = line.trim().split(/\s+/).filter(token => token.length > 0)
+    const expected = rowLength(row, bounds.cols)
+    if (tokens.length !== expected) {
+      const parity = row % 2 === 0 ? 'even' : 'odd'
+      throw new PatternError(`Expected ${expected} cells on an ${parity} row, found ${tokens.length}`, row)
+    }
+    return tokens.map((token, col) => parseCell(token, bounds, row, col))
+  })
+}
+
+// Accepts either the text format or its JSON encoding (an array of row strings)
+export function loadPattern(source: string, bounds: PatternBounds): PatternCell[][] {
+  const trimmed = source.trim()
+  if (!trimmed.startsWith('[')) {
+    return parsePattern(trimmed, bounds)
+  }
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(trimmed)
+  } catch (e) {
+    throw new PatternError(`Invalid JSON: ${(e as Error).message}`)
+  }
+  if (!isStringArray(parsed)) {
+    throw new PatternError('JSON patterns must be an array of row strings')
+  }
+  return parsePattern(parsed, bounds)
+}
+
+export function formatCell(cell: PatternCell): string {
+  if (!cell) return '.'
+  if (cell.color === 'random') return '?'
+
+  const special = Object.keys(SPECIAL_CODES).find(code => SPECIAL_CODES[code] === cell.color)
+  if (special) return special
+
+  const code = Object.keys(COLOR_CODES).find(key => COLOR_CODES[key] === cell.color)!
+  if (cell.chained) return `${code}&`
+  if (cell.tagged) return `${code}@`
+  if (cell.hits && cell.hits > 1) return `${code}${cell.hits}`
+  return code
+}
+
+export function formatPattern(cells: PatternCell[][]): string[] {
+  return cells.map((row, index) => (index % 2 === 0 ? '' : ' ') + row.map(formatCell).join(' '))
+}
+
+// Colors a level may queue for the shooter: its palette, plus the power-ups if it has them
+function shotColors(colors: number, powerUps: boolean): BubbleColor[] {
+  const palette = Object.values(COLOR_CODES).slice(0, colors)
+  return powerUps ? [...palette, ...POWER_UP_CODES.map(code => SPECIAL_CODES[code])] : palette
+}
+
+// A puzzle shot queue written with the cell tokens, e.g. 'R B * B'
+export function parseShotSequence(text: string, bounds: PatternBounds): BubbleColor[] {
+  const allowed = shotColors(bounds.colors ?? Object.keys(COLOR_CODES).length, bounds.powerUps !== false)
+  return text.trim().split(/\s+/).filter(token => token.length > 0).map((token, index) => {
+    const cell = parseCell(token, { ...bounds, obstacles: false })
+    if (!cell || cell.color === 'random' || cell.tagged || !allowed.includes(cell.color)) {
+      throw new PatternError(`Shot ${index + 1}: "${token}" can't be shot`)
+    }
+    return cell.color
+  })
+}
+
+export function formatShotSequence(colors: BubbleColor[]): string {
+  return colors.map(color => formatCell({ color })).join(' ')
+}
+
+// Board size for whole levels; colors, obstacles and power-ups come from the level itself
+export type LevelBounds = Omit<PatternBounds, 'colors' | 'obstacles' | 'powerUps'>
+
+// Parses a whole level (as exported by the editor) and validates every pattern in it
+export function loadLevel(source: string, bounds: LevelBounds): LevelConfig {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(source)
+  } catch (e) {
+    throw new PatternError(`Invalid JSON: ${(e as Error).message}`)
+  }
+  return parseLevel(parsed, bounds)
+}
+
+// Checks an already decoded level, e.g. one stored alongside other data
+export function parseLevel(parsed: unknown, bounds: LevelBounds): LevelConfig {
+  if (!isRecord(parsed)) {
+    throw new PatternError('Level file must contain a JSON object')
+  }
+
+  const {
+    colors, speed, patterns, hasPowerUps, hasObstacles, timeLimit, rowSpeed, swaps,
+    name, objectives, loseConditions, shotSequence, shotLimit
+  } = parsed
+  if (!isInteger(colors) || colors < 1 || colors > Object.keys(COLOR_CODES).length) {
+    throw new PatternError(`"colors" must be a whole number from 1 to ${Object.keys(COLOR_CODES).length}`)
+  }
+  if (typeof speed !== 'number' || speed <= 0) {
+    throw new PatternError('"speed" must be a positive number')
+  }
+  if (typeof hasPowerUps !== 'boolean' || typeof hasObstacles !== 'boolean') {
+    throw new PatternError('"hasPowerUps" and "hasObstacles" must be true or false')
+  }
+  if (timeLimit !== undefined && (typeof timeLimit !== 'number' || timeLimit <= 0)) {
+    throw new PatternError('"timeLimit" must be a positive number of seconds')
+  }
+  if (rowSpeed !== undefined && (typeof rowSpeed !== 'number' || rowSpeed < 0)) {
+    throw new PatternError('"rowSpeed" must be zero or a positive number')
+  }
+  if (swaps !== undefined && (!isInteger(swaps) || swaps < 0)) {
+    throw new PatternError('"swaps" must be zero or a positive whole number')
+  }
+  if (name !== undefined && typeof name !== 'string') {
+    throw new PatternError('"name" must be a string')
+  }
+  if (objectives !== undefined && (!Array.isArray(objectives) || objectives.length === 0 || !objectives.every(isObjective))) {
+    throw new PatternError('"objectives" must be a list of clearBoard, clearTopRow, freeTagged with a count or score with points')
+  }
+  if (loseConditions !== undefined && (!Array.isArray(loseConditions) || !loseConditions.every(isLoseCondition))) {
+    throw new PatternError(`"loseConditions" must be a list of ${DEFAULT_LOSE_CONDITIONS.join(', ')}`)
+  }
+  const allowedShots = shotColors(colors, hasPowerUps)
+  const isShotColor = (color: unknown): color is BubbleColor => allowedShots.some(allowed => allowed === color)
+  if (shotSequence !== undefined && (!Array.isArray(shotSequence) || shotSequence.length === 0 || !shotSequence.every(isShotColor))) {
+    throw new PatternError(`"shotSequence" must be a list of bubbles from ${allowedShots.join(', ')}`)
+  }
+  if (shotLimit !== undefined && (!isInteger(shotLimit) || shotLimit < 1)) {
+    throw new PatternError('"shotLimit" must be a positive whole number')
+  }
+  if (!Array.isArray(patterns) || !patterns.every(isStringArray)) {
+    throw new PatternError('"patterns" must be an array of patterns, each an array of row strings')
+  }
+
+  // A board with fewer tags than the objective asks for could never be cleared
+  const tagsWanted = Math.max(0, ...(objectives ?? []).map(objective => (objective.type === 'freeTagged' ? objective.count : 0)))
+  patterns.forEach((pattern, index) => {
+    try {
+      const cells = parsePattern(pattern, { ...bounds, colors, obstacles: hasObstacles, powerUps: hasPowerUps })
+      const tags = cells.flat().filter(cell => cell?.tagged).length
+      if (tags < tagsWanted) {
+        throw new PatternError(`Has ${tags} tagged bubbles but the objective asks to free ${tagsWanted}`)
+      }
+    } catch (e) {
+      if (e instanceof PatternError) {
+        throw new PatternError(`Pattern ${index + 1}: ${e.message}`)
+      }
+      throw e
+    }
+  })
+
+  const level: LevelConfig = { colors, speed, patterns, hasPowerUps, hasObstacles }
+  if (timeLimit !== undefined) level.timeLimit = timeLimit
+  if (rowSpeed !== undefined) level.rowSpeed = rowSpeed
+  if (swaps !== undefined) level.swaps = swaps
+  if (name !== undefined) level.name = name
+  if (objectives !== undefined) level.objectives = objectives
+  if (loseConditions !== undefined) level.loseConditions = loseConditions
+  if (shotSequence !== undefined) level.shotSequence = shotSequence
+  if (shotLimit !== undefined) level.shotLimit = shotLimit
+  return level
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest'
+import { emptyProgress, migrateProgress, SAVE_VERSION } from './progress'
+
+const LEVEL_COUNT = 5
+const record = { bestScore: 1200, stars: 2, fewestShots: 14 }
+const stats = { gamesPlayed: 4, gamesWon: 1, levelsCompleted: 6, shotsFired: 90, bestCombo: 5 }
+
+describe('migrateProgress', () => {
+  it('upgrades a v1 save and gives it empty endless stats', () => {
+    const progress = migrateProgress({ version: 1, unlocked: 3, levels: { 1: record, 2: record }, stats }, LEVEL_COUNT)
+    expect(progress).toEqual({
+      version: SAVE_VERSION,
+      unlocked: 3,
+      levels: { 1: record, 2: record },
+      stats,
+      endless: emptyProgress().endless
+    })
+  })
+
+  it('keeps a current save as it is', () => {
+    const save = { ...emptyProgress(), unlocked: 2, levels: { 1: record }, stats }
+    expect(migrateProgress(save, LEVEL_COUNT)).toEqual(save)
+  })
+
+  it('rejects a save without a usable version', () => {
+    expect(() => migrateProgress({ unlocked: 2 }, LEVEL_COUNT)).toThrow(/no version/)
+    expect(() => migrateProgress({ version: '2' }, LEVEL_COUNT)).toThrow(/no version/)
+    expect(() => migrateProgress({ version: 1.5 }, LEVEL_COUNT)).toThrow(/no version/)
+    expect(() => migrateProgress(null, LEVEL_COUNT)).toThrow(/no version/)
+    expect(() => migrateProgress([], LEVEL_COUNT)).toThrow(/no version/)
+  })
+
+  it('rejects versions it has no migration for', () => {
+    expect(() => migrateProgress({ version: 0 }, LEVEL_COUNT)).toThrow(/No migration from save version 0/)
+    expect(() => migrateProgress({ version: SAVE_VERSION + 1 }, LEVEL_COUNT)).toThrow(/newer version/)
+  })
+
+  it('clamps unlocked to the levels that exist', () => {
+    const load = (unlocked: unknown) => migrateProgress({ ...emptyProgress(), unlocked }, LEVEL_COUNT).unlocked
+    expect(load(99)).toBe(LEVEL_COUNT)
+    expect(load(0)).toBe(1)
+    expect(load(-4)).toBe(1)
+    expect(load(2.5)).toBe(1)
+    expect(load('3')).toBe(1)
+  })
+
+  it('drops level records past the level count or with bad keys or fields', () => {
+    const levels = {
+      1: record,
+      [LEVEL_COUNT]: record,
+      [LEVEL_COUNT + 1]: record,
+      0: record,
+      '2.5': record,
+      abc: record,
+      3: { bestScore: '10', stars: 1, fewestShots: 3 }
+    }
+    expect(migrateProgress({ ...emptyProgress(), levels }, LEVEL_COUNT).levels).toEqual({ 1: record, [LEVEL_COUNT]: record })
+  })
+
+  it('fills in missing or malformed stats from the defaults', () => {
+    const progress = migrateProgress({ version: SAVE_VERSION, stats: { gamesPlayed: 3, gamesWon: 'x' }, endless: 'none' }, LEVEL_COUNT)
+    expect(progress.stats).toEqual({ ...emptyProgress().stats, gamesPlayed: 3 })
+    expect(progress.endless).toEqual(emptyProgress().endless)
+    expect(progress.levels).toEqual({})
+  })
+})
@@ -0,0 +1,188 @@
+import { isInteger, isRecord } from './guards'
+import type { LevelSummary } from './types'
+
+// Campaign progress and endless-mode stats kept in localStorage. Bump SAVE_VERSION whenever the shape changes and add
+// a migration from the previous version, so existing players keep their progress.
+
+export const SAVE_VERSION = 2
+
+export interface LevelRecord {
+  bestScore: number
+  stars: number
+  fewestShots: number
+}
+
+export interface CampaignStats {
+  gamesPlayed: number
+  gamesWon: number
+  levelsCompleted: number
+  shotsFired: number
+  bestCombo: number
+}
+
+export interface EndlessStats {
+  runs: number
+  bestScore: number
+  // Highest difficulty level reached
+  bestLevel: number
+  mostRows: number
+  shotsFired: number
+  bestCombo: number
+}
+
+export interface SaveData {
+  version: number
+  // Highest level the player may start from
+  unlocked: number
+  // Keyed by level number
+  levels: { [level: number]: LevelRecord }
+  stats: CampaignStats
+  endless: EndlessStats
+}
+
+const STORAGE_KEY = 'colorBurst.progress'
+
+type SaveRecord = Record<string, unknown>
+
+// Each entry upgrades a save from that version to the next one
+const MIGRATIONS: { [fromVersion: number]: (data: SaveRecord) => SaveRecord } = {
+  // Endless mode added its own stats
+  1: data => ({ ...data, endless: emptyProgress().endless })
+}
+
+export function emptyProgress(): SaveData {
+  return {
+    version: SAVE_VERSION,
+    unlocked: 1,
+    levels: {},
+    stats: { gamesPlayed: 0, gamesWon: 0, levelsCompleted: 0, shotsFired: 0, bestCombo: 0 },
+    endless: { runs: 0, bestScore: 0, bestLevel: 0, mostRows: 0, shotsFired: 0, bestCombo: 0 }
+  }
+}
+
+export function migrateProgress(data: unknown, levelCount: number): SaveData {
+  if (!isRecord(data) || !isInteger(data.version)) {
+    throw new Error('Save data has no version')
+  }
+  if (data.version > SAVE_VERSION) {
+    throw new Error(`Save data is from a newer version (${data.version})`)
+  }
+
+  let migrated: SaveRecord = data
+  for (let version = data.version; version < SAVE_VERSION; version++) {
+    const migrate = MIGRATIONS[version]
+    if (!migrate) throw new Error(`No migration from save version ${version}`)
+    migrated = { ...migrate(migrated), version: version + 1 }
+  }
+
+  // Fill in anything a hand-edited or partial save is missing
+  const empty = emptyProgress()
+  const levels: SaveData['levels'] = {}
+  if (isRecord(migrated.levels)) {
+    for (const [key, record] of Object.entries(migrated.levels)) {
+      const level = Number(key)
+      if (isInteger(level) && level >= 1 && level <= levelCount && isLevelRecord(record)) levels[level] = record
+    }
+  }
+  return {
+    version: SAVE_VERSION,
+    unlocked: isInteger(migrated.unlocked) ? Math.min(levelCount, Math.max(1, migrated.unlocked)) : 1,
+    levels,
+    stats: numbers(empty.stats, migrated.stats),
+    endless: numbers(empty.endless, migrated.endless)
+  }
+}
+
+function isLevelRecord(value: unknown): value is LevelRecord {
+  return isRecord(value) && (['bestScore', 'stars', 'fewestShots'] as const).every(key => typeof value[key] === 'number')
+}
+
+// Takes each of the defaults' fields from `value` where it holds a number there
+function numbers<T extends { [K in keyof T]: number }>(defaults: T, value: unknown): T {
+  const result = { ...defaults }
+  if (!isRecord(value)) return result
+  for (const key of Object.keys(defaults) as (keyof T)[]) {
+    const field = value[key as string]
+    if (typeof field === 'number' && Number.isFinite(field)) result[key] = field as T[keyof T]
+  }
+  return result
+}
+
+export function loadProgress(levelCount: number): SaveData {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY)
+    if (!raw) return emptyProgress()
+    const progress = migrateProgress(JSON.parse(raw), levelCount)
+    saveProgress(progress)
+    return progress
+  } catch {
+    // A broken save shouldn't stop the game from starting; it is replaced on the next save
+    return emptyProgress()
+  }
+}
+
+export function saveProgress(progress: SaveData) {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(progress))
+}
+
+export function recordLevel(progress: SaveData, summary: LevelSummary, levelCount: number): SaveData {
+  const previous = progress.levels[summary.level]
+  const record: LevelRecord = previous
+    ? {
+      bestScore: Math.max(previous.bestScore, summary.levelScore),
+      stars: Math.max(previous.stars, summary.stars),
+      fewestShots: Math.min(previous.fewestShots, summary.shots)
+    }
+    : { bestScore: summary.levelScore, stars: summary.stars, fewestShots: summary.shots }
+
+  return {
+    ...progress,
+    unlocked: Math.min(levelCount, Math.max(progress.unlocked, summary.level + 1)),
+    levels: { ...progress.levels, [summary.level]: record },
+    stats: {
+      ...progress.stats,
+      levelsCompleted: progress.stats.levelsCompleted + 1,
+      shotsFired: progress.stats.shotsFired + summary.shots,
+      bestCombo: Math.max(progress.stats.bestCombo, summary.maxCombo)
+    }
+  }
+}
+
+export function recordGame(progress: SaveData, won: boolean, maxCombo: number): SaveData {
+  return {
+    ...progress,
+    stats: {
+      ...progress.stats,
+      gamesPlayed: progress.stats.gamesPlayed + 1,
+      gamesWon: progress.stats.gamesWon + (won ? 1 : 0),
+      bestCombo: Math.max(progress.stats.bestCombo, maxCombo)
+    }
+  }
+}
+
+export interface EndlessRun {
+  score: number
+  level: number
+  rowsPushed: number
+  shots: number
+  maxCombo: number
+}
+
+export function recordEndlessRun(progress: SaveData, run: EndlessRun): SaveData {
+  const stats = progress.endless
+  return {
+    ...progress,
+    endless: {
+      runs: stats.runs + 1,
+      bestScore: Math.max(stats.bestScore, run.score),
+      bestLevel: Math.max(stats.bestLevel, run.level),
+      mostRows: Math.max(stats.mostRows, run.rowsPushed),
+      shotsFired: stats.shotsFired + run.shots,
+      bestCombo: Math.max(stats.bestCombo, run.maxCombo)
+    }
+  }
+}
+
+export function totalStars(progress: SaveData): number {
+  return Object.values(progress.levels).reduce((sum, record) => sum + record.stars, 0)
+}
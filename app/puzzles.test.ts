@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest'
+import GameEngine from './GameEngine'
+import { PUZZLES } from './puzzles'
+
+// Starts puzzle `index` (from 1) and skips its intro
+function startPuzzle(index: number): GameEngine {
+  const engine = new GameEngine({ seed: 1 })
+  engine.send({ type: 'selectPuzzle', puzzle: index })
+  engine.step()
+  engine.send({ type: 'confirm' })
+  engine.step()
+  return engine
+}
+
+// Fires at `angle` and runs until the shot has landed and everything it popped is gone
+function shoot(engine: GameEngine, angle: number) {
+  engine.send({ type: 'aim', angle })
+  engine.send({ type: 'fire' })
+  engine.step()
+  while (engine.gameState === 'playing' && (engine.shootingBubble || engine.bubbles.some(row => row.some(bubble => bubble?.isPopping)))) {
+    engine.step()
+  }
+  engine.step()
+}
+
+// Every angle the shooter allows, in small steps
+const ANGLES = Array.from({ length: 301 }, (_, i) => -Math.PI + 0.3 + ((Math.PI - 0.6) * i) / 300)
+
+// Angles that fire each puzzle's queue to a win
+const SOLUTIONS: { [name: string]: number[] } = {
+  'Warm-up': [-2.82, -2.84],
+  // Pop the plug, then bank the yellow up the shaft
+  Rescue: [-Math.PI / 2, -1.52],
+  'Top Shelf': [-0.3, -0.36, -2.84],
+  // Each pillar from below, left to right
+  Landslide: [-2.07, -1.67, -1.23],
+  'Clean Sweep': [-2.8, -2.81, -2.84, -2.84, -0.33]
+}
+
+describe.each(PUZZLES.map((puzzle, i) => [puzzle.name ?? `Puzzle ${i + 1}`, i + 1] as const))('%s', (name, index) => {
+  it('cannot be solved with a single shot', () => {
+    for (const angle of ANGLES) {
+      const engine = startPuzzle(index)
+      shoot(engine, angle)
+      expect(engine.gameState, `angle ${angle}`).not.toBe('levelComplete')
+    }
+  })
+
+  it('is solved by firing the queue in order', () => {
+    const solution = SOLUTIONS[name]
+    expect(solution).toBeDefined()
+    const engine = startPuzzle(index)
+    solution.forEach((angle, shot) => {
+      expect(engine.gameState, `before shot ${shot + 1}`).toBe('playing')
+      shoot(engine, angle)
+    })
+    expect(engine.gameState).toBe('levelComplete')
+    expect(engine.lives).toBe(3)
+  })
+})
+
+describe('Rescue', () => {
+  const index = PUZZLES.findIndex(puzzle => puzzle.name === 'Rescue') + 1
+
+  it('only frees the tags by dropping them', () => {
+    for (const angle of ANGLES) {
+      const engine = startPuzzle(index)
+      shoot(engine, angle)
+      expect(engine.taggedFreed, `angle ${angle}`).toBe(0)
+    }
+  })
+})
+
+describe('Landslide', () => {
+  const index = PUZZLES.findIndex(puzzle => puzzle.name === 'Landslide') + 1
+
+  it('needs the last pillar cut to reach the target', () => {
+    const engine = startPuzzle(index)
+    shoot(engine, SOLUTIONS.Landslide[0])
+    shoot(engine, SOLUTIONS.Landslide[1])
+    expect(engine.score).toBeGreaterThan(0)
+    expect(engine.score).toBeLessThan(4000)
+    expect(engine.gameState).toBe('playing')
+  })
+})
@@ -0,0 +1,77 @@
+import type { LevelConfig } from './types'
+
+// Puzzle mode: small authored boards with a fixed shot queue. Every shot is known in advance, so
+// each puzzle has a solution to find rather than a board to survive. Running out of shots is the
+// only way to lose one.
+
+export const PUZZLES: LevelConfig[] = [
+  {
+    name: 'Warm-up',
+    colors: 2, speed: 1, hasPowerUps: false, hasObstacles: false,
+    loseConditions: ['outOfShots'],
+    shotSequence: ['red', 'blue', 'red', 'blue'],
+    patterns: [[
+      '. . . . . R R B B . . . . . .',
+      ' . . . . R R B B . . . . . .'
+    ]]
+  },
+  {
+    // The tagged bubbles hang apart from each other on a chain held up only by the yellows, so
+    // they have to be dropped. The shaft beside the chain leads up to the yellows once the blue
+    // plug at its bottom is popped.
+    name: 'Rescue',
+    colors: 4, speed: 1, hasPowerUps: false, hasObstacles: false, swaps: 0,
+    objectives: [{ type: 'freeTagged', count: 3 }],
+    loseConditions: ['outOfShots'],
+    shotSequence: ['blue', 'yellow', 'red'],
+    patterns: [[
+      'G G G G G G G Y Y Y G G G G G',
+      ' G G G G G G . B@ . . G G G G',
+      'G G G G G G . G G . . G G G G',
+      ' G G G G G G . B@ . . G G G G',
+      'G G G G G G . G G . . G G G G',
+      ' G G G G G G . B@ . . G G G G',
+      'G G G G G G . G G . . G G G G',
+      ' G G G G G G . . B B G G G G'
+    ]]
+  },
+  {
+    name: 'Top Shelf',
+    colors: 3, speed: 1, hasPowerUps: false, hasObstacles: false,
+    objectives: [{ type: 'clearTopRow' }],
+    loseConditions: ['outOfShots'],
+    shotSequence: ['red', 'green', 'blue'],
+    patterns: [[
+      'R R R . . . . . . . . . B B B',
+      ' G G . . . . . . . . . . G G'
+    ]]
+  },
+  {
+    // The red slide hangs from three pillars and nothing else, and each half stays up while either
+    // pillar beside it does. Only bringing both halves down scores enough, which takes every shot
+    // in the queue on the pillar of its own color.
+    name: 'Landslide',
+    colors: 4, speed: 1, hasPowerUps: false, hasObstacles: false, swaps: 0,
+    objectives: [{ type: 'score', points: 4000 }],
+    loseConditions: ['outOfShots'],
+    shotSequence: ['green', 'yellow', 'blue'],
+    patterns: [[
+      'G . . . . . . Y . . . . . . B',
+      ' G R R R R R R Y R R R R R B',
+      'G R R R R R R Y R R R R R R B',
+      ' G R R R R R R Y R R R R R B',
+      'G R R R R R R Y R R R R R R B'
+    ]]
+  },
+  {
+    name: 'Clean Sweep',
+    colors: 4, speed: 1, hasPowerUps: false, hasObstacles: false,
+    objectives: [{ type: 'clearTopRow' }, { type: 'freeTagged', count: 2 }],
+    loseConditions: ['outOfShots'],
+    shotSequence: ['red', 'green', 'blue', 'yellow', 'red'],
+    patterns: [[
+      'R R R G G G B B B Y Y Y R R R',
+      ' . . . . R@ . . . . B@ . . . .'
+    ]]
+  }
+]
@@ -0,0 +1,147 @@
+'use client'
+
+import Link from 'next/link'
+import { useEffect, useRef, useState } from 'react'
+import BubbleShooter from '../BubbleShooter'
+import GameEngine from '../GameEngine'
+import { parseReplay, ReplayDivergence, ReplayFile } from '../replayFile'
+
+const SPEEDS = [0.25, 0.5, 1, 2, 4, 8]
+
+interface PlaybackStatus {
+  tick: number
+  paused: boolean
+  speed: number
+  state: string
+  divergence: ReplayDivergence | null
+}
+
+function formatTime(ticks: number): string {
+  const seconds = Math.floor(ticks / GameEngine.TICK_RATE)
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`
+}
+
+export default function ReplayViewer() {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const gameRef = useRef<BubbleShooter | null>(null)
+  const [replay, setReplay] = useState<ReplayFile | null>(null)
+  const [status, setStatus] = useState<PlaybackStatus | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!replay || !canvasRef.current) return
+
+    let game: BubbleShooter
+    try {
+      game = new BubbleShooter(canvasRef.current, { replay })
+    } catch (e) {
+      setMessage(`Can't play this replay: ${(e as Error).message}`)
+      return
+    }
+    gameRef.current = game
+    game.start()
+
+    // The player runs inside the game loop; the controls only need a few refreshes a second
+    const interval = window.setInterval(() => {
+      const player = game.playback
+      if (!player) return
+      setStatus({
+        tick: player.tick,
+        paused: player.paused,
+        speed: player.speed,
+        state: player.engine.gameState,
+        divergence: player.divergence
+      })
+    }, 100)
+
+    return () => {
+      window.clearInterval(interval)
+      game.stop()
+      gameRef.current = null
+    }
+  }, [replay])
+
+  const openFile = async (file: File) => {
+    try {
+      setReplay(parseReplay(await file.text()))
+      setMessage(null)
+    } catch (e) {
+      setMessage(`${file.name}: ${(e as Error).message}`)
+    }
+  }
+
+  const player = () => gameRef.current?.playback ?? null
+
+  return (
+    <main style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: 12, padding: 16, color: '#ffffff', height: '100vh' }}>
+      <div style={{ display: 'flex', gap: 12, alignItems: 'center' }}>
+        <Link href="/" style={{ color: '#ffffff' }}>← Back to game</Link>
+        <button onClick={() => fileInputRef.current?.click()}>Open replay…</button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          style={{ display: 'none' }}
+          onChange={e => {
+            const file = e.target.files?.[0]
+            if (file) openFile(file)
+            e.target.value = ''
+          }}
+        />
+        {replay && <span>Seed {replay.seed}</span>}
+      </div>
+      {message && <p style={{ color: '#FFD1D1', fontWeight: 'bold' }}>{message}</p>}
+
+      {replay && status && (
+        <div style={{ display: 'flex', gap: 12, alignItems: 'center' }}>
+          <button
+            onClick={() => {
+              const p = player()
+              if (!p) return
+              // Starting again from the end replays from the top
+              if (p.finished) p.seek(0)
+              p.paused = !p.paused
+            }}
+            style={{ minWidth: 70 }}
+          >
+            {status.paused ? 'Play' : 'Pause'}
+          </button>
+          <input
+            type="range"
+            min={0}
+            max={replay.length}
+            value={status.tick}
+            onChange={e => player()?.seek(Number(e.target.value))}
+            style={{ width: 360 }}
+          />
+          <span style={{ fontVariantNumeric: 'tabular-nums' }}>
+            {formatTime(status.tick)} / {formatTime(replay.length)}
+          </span>
+          <select
+            value={status.speed}
+            onChange={e => {
+              const p = player()
+              if (p) p.speed = Number(e.target.value)
+            }}
+          >
+            {SPEEDS.map(speed => <option key={speed} value={speed}>{speed}×</option>)}
+          </select>
+          <span style={{ opacity: 0.7 }}>{status.state}</span>
+        </div>
+      )}
+
+      {status && (
+        <p style={{ margin: 0, fontWeight: 'bold', color: status.divergence ? '#FF4757' : '#2ED573' }}>
+          {status.divergence
+            ? `Diverged at tick ${status.divergence.tick} (${formatTime(status.divergence.tick)}): expected hash ${status.divergence.expected}, got ${status.divergence.actual}`
+            : 'In sync with the recording'}
+        </p>
+      )}
+
+      <div style={{ flex: 1, minHeight: 0, width: '100%' }}>
+        <canvas ref={canvasRef} style={{ width: '100%', height: '100%' }} />
+      </div>
+    </main>
+  )
+}
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest'
+import GameEngine from './GameEngine'
+import { parseReplay, ReplayFile, ReplayPlayer, ReplayRecorder } from './replayFile'
+import type { GameCommand } from './types'
+
+// Commands keyed by the tick they are sent on
+type Script = { tick: number; command: GameCommand }[]
+
+// Aims across the board and fires every `interval` ticks from `start`
+function volley(start: number, shots: number, interval: number): Script {
+  const script: Script = []
+  for (let shot = 0; shot < shots; shot++) {
+    const tick = start + shot * interval
+    script.push({ tick, command: { type: 'aim', angle: -Math.PI / 2 + ((shot % 5) - 2) * 0.35 } })
+    script.push({ tick: tick + 1, command: { type: 'fire' } })
+  }
+  return script
+}
+
+// Plays the script the way the game loop does, on uneven frames, with the recorder attached
+function record(script: Script, until: number, seed: number = 99): ReplayFile {
+  const engine = new GameEngine({ seed })
+  const recorder = new ReplayRecorder(engine)
+  const frames = [1 / 60, 0.021, 0.009, 1 / 30, 0.012]
+  let next = 0
+  let frame = 0
+  while (engine.tick < until) {
+    while (next < script.length && script[next].tick <= engine.tick) {
+      recorder.record(script[next].command)
+      engine.send(script[next].command)
+      next++
+    }
+    engine.update(frames[frame++ % frames.length])
+    recorder.checkpoint()
+  }
+  return recorder.finish()
+}
+
+function byTick(...scripts: Script[]): Script {
+  return scripts.flat().sort((a, b) => a.tick - b.tick)
+}
+
+function finalHash(replay: ReplayFile): number {
+  return replay.checkpoints[replay.checkpoints.length - 1][1]
+}
+
+const RUNS: [string, () => ReplayFile][] = [
+  ['a campaign run', () => record(byTick(volley(20, 12, 45), [
+    { tick: 3, command: { type: 'confirm' } },
+    { tick: 10, command: { type: 'confirm' } },
+    { tick: 300, command: { type: 'swap' } },
+    { tick: 400, command: { type: 'pause' } },
+    { tick: 420, command: { type: 'openSettings' } },
+    { tick: 440, command: { type: 'closeSettings' } },
+    { tick: 460, command: { type: 'resume' } },
+    { tick: 700, command: { type: 'aimAt', x: 100, y: 200 } }
+  ]), 900)],
+  ['an endless run', () => record([
+    { tick: 3, command: { type: 'startEndless' } },
+    { tick: 10, command: { type: 'confirm' } },
+    ...volley(20, 30, 40)
+  ], 1400)],
+  ['a puzzle run', () => record([
+    { tick: 3, command: { type: 'selectPuzzle', puzzle: 1 } },
+    { tick: 10, command: { type: 'confirm' } },
+    ...volley(20, 2, 60),
+    { tick: 160, command: { type: 'undo' } },
+    ...volley(180, 6, 60)
+  ], 700)]
+]
+
+describe('replays', () => {
+  it.each(RUNS)('plays back %s without diverging', (_, run) => {
+    const replay = run()
+    expect(replay.commands.length).toBeGreaterThan(0)
+    expect(replay.checkpoints.length).toBeGreaterThan(5)
+
+    const player = new ReplayPlayer(parseReplay(JSON.stringify(replay)))
+    while (!player.finished) player.advance(1 / 60)
+    expect(player.divergence).toBeNull()
+    expect(player.engine.stateHash()).toBe(finalHash(replay))
+  })
+
+  it.each(RUNS)('plays back %s without diverging after seeking', (_, run) => {
+    const replay = run()
+    const player = new ReplayPlayer(replay)
+    player.seek(replay.length / 2)
+    player.seek(replay.length / 4)
+    player.speed = 8
+    while (!player.finished) player.advance(0.05)
+    expect(player.divergence).toBeNull()
+    expect(player.engine.stateHash()).toBe(finalHash(replay))
+
+    player.seek(0)
+    player.seek(replay.length)
+    expect(player.divergence).toBeNull()
+    expect(player.engine.stateHash()).toBe(finalHash(replay))
+  })
+
+  it('records the mode the run was played in', () => {
+    const modes = RUNS.map(([, run]) => {
+      const player = new ReplayPlayer(run())
+      player.seek(200)
+      return player.engine.mode
+    })
+    expect(modes).toEqual(['campaign', 'endless', 'puzzle'])
+  })
+
+  it('reports the first checkpoint that differs', () => {
+    const replay = RUNS[0][1]()
+    const [tick, hash] = replay.checkpoints[3]
+    replay.checkpoints[3] = [tick, hash + 1]
+    const player = new ReplayPlayer(replay)
+    player.seek(replay.length)
+    expect(player.divergence).toEqual({ tick, expected: hash + 1, actual: hash })
+  })
+
+  it('checks an embedded level set like a level file', () => {
+    const level = { colors: 4, speed: 1, hasPowerUps: false, hasObstacles: false, patterns: [['R R B B . . . . . . . . . . .']] }
+    const load = (levels: unknown[]) => parseReplay(JSON.stringify({ ...RUNS[0][1](), levels, startLevel: 1 }))
+    expect(load([level]).levels).toEqual([level])
+    expect(() => load([{ ...level, patterns: [['R R Z B . . . . . . . . . . .']] }])).toThrow(/Replay level 1: Pattern 1: .*Unknown token "Z"/)
+    expect(() => load([level, { ...level, objectives: [{ type: 'win' }] }])).toThrow(/Replay level 2: "objectives"/)
+    expect(() => load([{ ...level, shotSequence: ['rainbow'] }])).toThrow(/Replay level 1: "shotSequence"/)
+    expect(() => load([{ ...level, loseConditions: ['never'] }])).toThrow(/Replay level 1: "loseConditions"/)
+  })
+
+  it('rejects unknown commands when loading', () => {
+    const replay = RUNS[0][1]()
+    replay.commands[0] = [0, '?']
+    expect(() => parseReplay(JSON.stringify(replay))).toThrow(/Unknown replay command/)
+  })
+})
@@ -0,0 +1,303 @@
+import { downloadFile } from './download'
+import GameEngine from './GameEngine'
+import { isInteger, isRecord } from './guards'
+import { LEVELS } from './levels'
+import { parseLevel, PatternError } from './patterns'
+import type { GameCommand, LevelConfig } from './types'
+
+// The engine is deterministic for a given seed and command stream, so a replay only stores the
+// commands with the tick they were applied on, plus periodic state hashes to catch divergence.
+
+export const REPLAY_VERSION = 1
+// Ticks between state hashes while recording
+const CHECKPOINT_INTERVAL = GameEngine.TICK_RATE
+
+// [ticks since the previous command, command code, ...arguments]
+type EncodedCommand = (string | number)[]
+
+export interface ReplayFile {
+  version: number
+  seed: number
+  width: number
+  height: number
+  startLevel?: number
+  // Only stored for custom level sets, e.g. editor play-tests
+  levels?: LevelConfig[]
+  commands: EncodedCommand[]
+  // [tick, stateHash]
+  checkpoints: [number, number][]
+  // Tick the recording ended on
+  length: number
+}
+
+export interface ReplayDivergence {
+  tick: number
+  expected: number
+  actual: number
+}
+
+const COMMAND_CODES: Record<GameCommand['type'], string> = {
+  aim: 'a',
+  aimAt: 'p',
+  fire: 'f',
+  swap: 's',
+  confirm: 'c',
+  selectLevel: 'l',
+  startEndless: 'e',
+  selectPuzzle: 'y',
+  undo: 'u',
+  pause: 'z',
+  resume: 'r',
+  openSettings: 'o',
+  closeSettings: 'x',
+  quit: 'q'
+}
+
+const COMMAND_TYPES = Object.fromEntries(
+  Object.entries(COMMAND_CODES).map(([type, code]) => [code, type])
+) as { [code: string]: GameCommand['type'] }
+
+function encodeCommand(delta: number, command: GameCommand): EncodedCommand {
+  const code = COMMAND_CODES[command.type]
+  switch (command.type) {
+    case 'aim':
+      return [delta, code, command.angle]
+    case 'aimAt':
+      return [delta, code, command.x, command.y]
+    case 'selectLevel':
+      return [delta, code, command.level]
+    case 'selectPuzzle':
+      return [delta, code, command.puzzle]
+    default:
+      return [delta, code]
+  }
+}
+
+function decodeCommand(encoded: EncodedCommand): GameCommand {
+  const [, code, a, b] = encoded
+  const type = COMMAND_TYPES[code as string]
+  switch (type) {
+    case 'aim':
+      return { type, angle: Number(a) }
+    case 'aimAt':
+      return { type, x: Number(a), y: Number(b) }
+    case 'selectLevel':
+      return { type, level: Number(a) }
+    case 'selectPuzzle':
+      return { type, puzzle: Number(a) }
+    case 'fire':
+    case 'swap':
+    case 'confirm':
+    case 'startEndless':
+    case 'undo':
+    case 'pause':
+    case 'resume':
+    case 'openSettings':
+    case 'closeSettings':
+    case 'quit':
+      return { type }
+    case undefined:
+      throw new Error(`Unknown replay command "${code}"`)
+  }
+}
+
+export class ReplayRecorder {
+  private engine: GameEngine
+  private options: Pick<ReplayFile, 'startLevel' | 'levels'>
+  private commands: EncodedCommand[] = []
+  private checkpoints: [number, number][] = []
+  private lastCommandTick: number = 0
+
+  constructor(engine: GameEngine, options: Pick<ReplayFile, 'startLevel' | 'levels'> = {}) {
+    this.engine = engine
+    this.options = options
+  }
+
+  // Call before handing the command to the engine; it is applied on the engine's current tick
+  record(command: GameCommand) {
+    const tick = this.engine.tick
+    this.commands.push(encodeCommand(tick - this.lastCommandTick, command))
+    this.lastCommandTick = tick
+  }
+
+  // Call after each engine update
+  checkpoint() {
+    const last = this.checkpoints[this.checkpoints.length - 1]
+    if (this.engine.tick - (last ? last[0] : 0) >= CHECKPOINT_INTERVAL) {
+      this.checkpoints.push([this.engine.tick, this.engine.stateHash()])
+    }
+  }
+
+  finish(): ReplayFile {
+    const checkpoints = [...this.checkpoints]
+    if (checkpoints[checkpoints.length - 1]?.[0] !== this.engine.tick) {
+      checkpoints.push([this.engine.tick, this.engine.stateHash()])
+    }
+    return {
+      version: REPLAY_VERSION,
+      seed: this.engine.seed,
+      width: this.engine.width,
+      height: this.engine.height,
+      ...this.options,
+      commands: [...this.commands],
+      checkpoints,
+      length: this.engine.tick
+    }
+  }
+}
+
+// Re-runs a replay on a fresh engine. Seeking backwards restarts from tick 0 and fast-forwards.
+export class ReplayPlayer {
+  engine: GameEngine
+  paused: boolean = false
+  speed: number = 1
+  // First checkpoint whose hash didn't match, if any
+  divergence: ReplayDivergence | null = null
+
+  private replay: ReplayFile
+  private commands: { tick: number; command: GameCommand }[]
+  private nextCommand: number = 0
+  private nextCheckpoint: number = 0
+  private accumulator: number = 0
+
+  constructor(replay: ReplayFile) {
+    this.replay = replay
+    let tick = 0
+    this.commands = replay.commands.map(encoded => {
+      tick += Number(encoded[0])
+      return { tick, command: decodeCommand(encoded) }
+    })
+    this.engine = this.createEngine()
+  }
+
+  get tick(): number {
+    return this.engine.tick
+  }
+
+  get length(): number {
+    return this.replay.length
+  }
+
+  get finished(): boolean {
+    return this.engine.tick >= this.replay.length
+  }
+
+  advance(dt: number) {
+    if (this.paused || this.finished) return
+    this.accumulator += Math.min(Math.max(dt, 0), GameEngine.MAX_FRAME_TIME) * this.speed
+    while (this.accumulator >= GameEngine.FIXED_DT && !this.finished) {
+      this.stepOnce()
+      this.accumulator -= GameEngine.FIXED_DT
+    }
+  }
+
+  seek(tick: number) {
+    const target = Math.max(0, Math.min(this.replay.length, Math.round(tick)))
+    if (target < this.engine.tick) {
+      this.engine = this.createEngine()
+      this.nextCommand = 0
+      this.nextCheckpoint = 0
+      this.divergence = null
+    }
+    while (this.engine.tick < target) {
+      this.stepOnce()
+    }
+    this.accumulator = 0
+  }
+
+  private createEngine(): GameEngine {
+    const { seed, width, height, levels, startLevel } = this.replay
+    return new GameEngine({ seed, width, height, levels, startLevel })
+  }
+
+  private stepOnce() {
+    const engine = this.engine
+    while (this.nextCommand < this.commands.length && this.commands[this.nextCommand].tick <= engine.tick) {
+      engine.send(this.commands[this.nextCommand].command)
+      this.nextCommand++
+    }
+    // Exactly one tick; update() also delivers the engine's events
+    engine.update(GameEngine.FIXED_DT)
+
+    const checkpoint = this.replay.checkpoints[this.nextCheckpoint]
+    if (checkpoint && checkpoint[0] === engine.tick) {
+      const actual = engine.stateHash()
+      if (actual !== checkpoint[1] && !this.divergence) {
+        this.divergence = { tick: checkpoint[0], expected: checkpoint[1], actual }
+      }
+      this.nextCheckpoint++
+    }
+  }
+}
+
+function isEncodedCommand(value: unknown): value is EncodedCommand {
+  return Array.isArray(value) && isInteger(value[0]) && value.every(part => typeof part === 'string' || typeof part === 'number')
+}
+
+function isCheckpoint(value: unknown): value is [number, number] {
+  return Array.isArray(value) && value.length === 2 && isInteger(value[0]) && isInteger(value[1])
+}
+
+// Runs each embedded level through the same checks as a level file, so a bad board is caught
+// here rather than when playback reaches it
+function parseLevels(levels: unknown[]): LevelConfig[] {
+  const { ROWS: rows, COLS: cols } = new GameEngine()
+  return levels.map((level, index) => {
+    try {
+      return parseLevel(level, { rows, cols })
+    } catch (e) {
+      if (e instanceof PatternError) {
+        throw new Error(`Replay level ${index + 1}: ${e.message}`)
+      }
+      throw e
+    }
+  })
+}
+
+export function parseReplay(source: string): ReplayFile {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(source)
+  } catch (e) {
+    throw new Error(`Invalid JSON: ${(e as Error).message}`)
+  }
+  if (!isRecord(parsed) || parsed.version !== REPLAY_VERSION) {
+    throw new Error(`Unsupported replay version ${isRecord(parsed) ? parsed.version : undefined}`)
+  }
+  const { seed, width, height, length, startLevel, levels, commands, checkpoints } = parsed
+  if (
+    typeof seed !== 'number' || typeof length !== 'number' ||
+    typeof width !== 'number' || typeof height !== 'number' ||
+    !Array.isArray(commands) || !Array.isArray(checkpoints)
+  ) {
+    throw new Error('Replay is missing required fields')
+  }
+  if (levels !== undefined && (!Array.isArray(levels) || levels.length === 0)) {
+    throw new Error('Replay has an invalid level set')
+  }
+  const levelSet = levels === undefined ? undefined : parseLevels(levels)
+  const levelCount = (levelSet ?? LEVELS).length
+  if (startLevel !== undefined && (!isInteger(startLevel) || startLevel < 1 || startLevel > levelCount)) {
+    throw new Error(`Replay starts on level ${startLevel}, which isn't one of its ${levelCount} levels`)
+  }
+  if (!checkpoints.every(isCheckpoint)) {
+    throw new Error('Replay has an invalid checkpoint')
+  }
+  if (!commands.every(isEncodedCommand)) {
+    throw new Error('Replay has an invalid command')
+  }
+  // Fail now rather than halfway through playback
+  commands.forEach(decodeCommand)
+
+  const replay: ReplayFile = { version: REPLAY_VERSION, seed, width, height, commands, checkpoints, length }
+  if (startLevel !== undefined) replay.startLevel = startLevel
+  if (levelSet !== undefined) replay.levels = levelSet
+  return replay
+}
+
+export function downloadReplay(replay: ReplayFile) {
+  // One line per command keeps the file small but still diffable
+  const { commands, ...header } = replay
+  const text = JSON.stringify(header).replace(/}$/, `,"commands":[\n${commands.map(c => JSON.stringify(c)).join(',\n')}\n]}`)
+  downloadFile(`color-burst-replay-${replay.seed}.json`, text)
+}
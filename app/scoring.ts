@@ -0,0 +1,115 @@
+// Every way to earn points, with the numbers in one table so the balance can be tuned in one place.
+// The engine reports each award as a ScoreEvent; the renderer turns them into popups and the
+// level-complete screen adds them up into a breakdown.
+
+export type ScoreEventKind = 'match' | 'drop' | 'bomb' | 'combo' | 'bankShot' | 'avalanche' | 'clear' | 'timeBonus'
+
+export interface ScoreEvent {
+  kind: ScoreEventKind
+  points: number
+  // Where the points were earned, for popups
+  x: number
+  y: number
+  // Bubbles involved, where that applies
+  count: number
+  // Skill moves get a headline on top of their popup
+  callout?: string
+}
+
+// Drops of at least `minBubbles` earn `points`; the biggest tier reached is the one paid out
+export interface AvalancheTier {
+  minBubbles: number
+  points: number
+  callout: string
+}
+
+export interface ScoreTable {
+  matchPerBubble: number
+  // Rainbows are worth more when they pop as part of a match
+  rainbowPerBubble: number
+  dropPerBubble: number
+  bombPerBubble: number
+  // A shot that bounced off a wall pays this share of its match and drop points again per bounce,
+  // and more again when it travelled at least longShotDistance pixels
+  bankShotPerBounce: number
+  longShotDistance: number
+  longShotBonus: number
+  avalancheTiers: AvalancheTier[]
+  clear: number
+  timeBonusPerSecond: number
+}
+
+export const SCORE_TABLE: ScoreTable = {
+  matchPerBubble: 10,
+  rainbowPerBubble: 30,
+  dropPerBubble: 15,
+  bombPerBubble: 20,
+  bankShotPerBounce: 0.5,
+  longShotDistance: 900,
+  longShotBonus: 0.5,
+  avalancheTiers: [
+    { minBubbles: 6, points: 100, callout: 'Avalanche!' },
+    { minBubbles: 12, points: 300, callout: 'Big Avalanche!' },
+    { minBubbles: 20, points: 750, callout: 'Mega Avalanche!' }
+  ],
+  clear: 250,
+  timeBonusPerSecond: 10
+}
+
+export const SCORE_LABELS: Record<ScoreEventKind, string> = {
+  match: 'Matches',
+  drop: 'Drops',
+  bomb: 'Bombs',
+  combo: 'Combo bonus',
+  bankShot: 'Bank shots',
+  avalanche: 'Avalanches',
+  clear: 'Board clear',
+  timeBonus: 'Time bonus'
+}
+
+export type ScoreBreakdown = Record<ScoreEventKind, number>
+
+export function emptyBreakdown(): ScoreBreakdown {
+  return { match: 0, drop: 0, bomb: 0, combo: 0, bankShot: 0, avalanche: 0, clear: 0, timeBonus: 0 }
+}
+
+export function matchPoints(table: ScoreTable, bubbles: number, rainbows: number): number {
+  return (bubbles - rainbows) * table.matchPerBubble + rainbows * table.rainbowPerBubble
+}
+
+export function dropPoints(table: ScoreTable, bubbles: number): number {
+  return bubbles * table.dropPerBubble
+}
+
+export function bombPoints(table: ScoreTable, bubbles: number): number {
+  return bubbles * table.bombPerBubble
+}
+
+// Extra points on top of `base` for a shot scored at `multiplier`
+export function comboPoints(base: number, multiplier: number): number {
+  return multiplier > 1 ? base * (multiplier - 1) : 0
+}
+
+export function bankShotPoints(table: ScoreTable, base: number, bounces: number, distance: number): number {
+  if (bounces === 0) return 0
+  const multiplier = bounces * table.bankShotPerBounce + (distance >= table.longShotDistance ? table.longShotBonus : 0)
+  return Math.round(base * multiplier)
+}
+
+export function bankShotCallout(bounces: number): string {
+  if (bounces === 1) return 'Bank Shot!'
+  if (bounces === 2) return 'Double Bank!'
+  return `${bounces}x Bank Shot!`
+}
+
+export function avalancheTier(table: ScoreTable, dropped: number): AvalancheTier | null {
+  let reached: AvalancheTier | null = null
+  for (const tier of table.avalancheTiers) {
+    if (dropped >= tier.minBubbles && (!reached || tier.minBubbles > reached.minBubbles)) reached = tier
+  }
+  return reached
+}
+
+export function timeBonusPoints(table: ScoreTable, secondsLeft: number): number {
+  return Math.floor(secondsLeft) * table.timeBonusPerSecond
+}
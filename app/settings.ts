@@ -0,0 +1,65 @@
+import type { AudioSettings } from './audio'
+import { BubbleStyle, COLOR_THEMES, ColorTheme } from './bubbleArt'
+import { isRecord } from './guards'
+import type { AimAssistLevel, AimAssistSettings } from './types'
+
+export const AIM_ASSIST_PRESETS: Record<AimAssistLevel, AimAssistSettings> = {
+  easy: { enabled: true, maxBounces: 3, showGhost: true },
+  normal: { enabled: true, maxBounces: 1, showGhost: true },
+  hard: { enabled: true, maxBounces: 0, showGhost: false },
+  expert: { enabled: false, maxBounces: 0, showGhost: false }
+}
+
+export interface GameSettings extends AudioSettings {
+  aimAssist: AimAssistLevel
+  colorTheme: ColorTheme
+  glyphs: boolean
+}
+
+export const DEFAULT_SETTINGS: GameSettings = {
+  aimAssist: 'normal',
+  colorTheme: 'standard',
+  glyphs: false,
+  masterVolume: 0.8,
+  sfxVolume: 0.8,
+  musicVolume: 0.5,
+  muted: false
+}
+
+const STORAGE_KEY = 'colorBurst.settings'
+
+export function loadSettings(): GameSettings {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY)
+    if (!raw) return DEFAULT_SETTINGS
+    const stored: unknown = JSON.parse(raw)
+    if (!isRecord(stored)) return DEFAULT_SETTINGS
+
+    // Anything missing or of the wrong type keeps its default, as does a preset that no longer exists
+    const { aimAssist, colorTheme, glyphs, muted } = stored
+    const settings = { ...DEFAULT_SETTINGS }
+    if (typeof aimAssist === 'string' && isKeyOf(AIM_ASSIST_PRESETS, aimAssist)) settings.aimAssist = aimAssist
+    if (typeof colorTheme === 'string' && isKeyOf(COLOR_THEMES, colorTheme)) settings.colorTheme = colorTheme
+    if (typeof glyphs === 'boolean') settings.glyphs = glyphs
+    if (typeof muted === 'boolean') settings.muted = muted
+    for (const key of ['masterVolume', 'sfxVolume', 'musicVolume'] as const) {
+      const volume = stored[key]
+      if (typeof volume === 'number' && Number.isFinite(volume)) settings[key] = Math.min(1, Math.max(0, volume))
+    }
+    return settings
+  } catch {
+    return DEFAULT_SETTINGS
+  }
+}
+
+function isKeyOf<T extends object>(table: T, key: string): key is Extract<keyof T, string> {
+  return Object.keys(table).includes(key)
+}
+
+export function saveSettings(settings: GameSettings) {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(settings))
+}
+
+export function bubbleStyle(settings: GameSettings): BubbleStyle {
+  return { theme: settings.colorTheme, glyphs: settings.glyphs }
+}
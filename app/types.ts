@@ -0,0 +1,177 @@
+import type { LoseCondition, Objective, ObjectiveProgress } from './objectives'
+import type { ScoreBreakdown, ScoreEvent } from './scoring'
+
+export type BubbleColor = 'red' | 'blue' | 'green' | 'yellow' | 'purple' | 'orange' | 'cyan' | 'pink' | 'rainbow' | 'bomb' | 'freeze' | 'stone'
+
+export interface Bubble {
+  x: number
+  y: number
+  color: BubbleColor
+  row: number
+  col: number
+  radius: number
+  isPopping?: boolean
+  popProgress?: number
+  // Obstacle properties from authored patterns
+  hits?: number
+  chained?: boolean
+  // Counts towards freeTagged objectives when it pops or drops
+  tagged?: boolean
+}
+
+export interface ShootingBubble {
+  x: number
+  y: number
+  vx: number
+  vy: number
+  color: BubbleColor
+  radius: number
+  // Side walls bounced off and pixels travelled since it was fired
+  bounces: number
+  distance: number
+}
+
+// A cell of an authored pattern; 'random' is filled from the level palette when the board is built
+export type PatternCell = {
+  color: BubbleColor | 'random'
+  hits?: number
+  chained?: boolean
+  tagged?: boolean
+} | null
+
+export interface ShotPrediction {
+  // Launch point, every wall bounce, and where the shot stops
+  path: { x: number; y: number }[]
+  bounces: number
+  // Grid cell the shot snaps into, or null if it never lands within the simulated ticks
+  landing: { row: number; col: number; x: number; y: number } | null
+}
+
+export type AimAssistLevel = 'easy' | 'normal' | 'hard' | 'expert'
+
+export interface AimAssistSettings {
+  enabled: boolean
+  // Wall bounces drawn before the preview stops; the ghost is only shown if the shot lands within them
+  maxBounces: number
+  showGhost: boolean
+}
+
+export interface LevelConfig {
+  colors: number
+  speed: number
+  // Alternative authored layouts in the patterns.ts text format; one is picked per run
+  patterns: string[][]
+  hasPowerUps: boolean
+  hasObstacles: boolean
+  timeLimit?: number
+  // Pixels the ceiling descends per engine tick
+  rowSpeed?: number
+  // Times the current and next bubble may be swapped; unlimited when omitted
+  swaps?: number
+  // Chance of a power-up each time a bubble is queued, when power-ups are on; 0.1 when omitted
+  powerUpChance?: number
+  // Shown on the intro screen
+  name?: string
+  // All of these clear the level; clearing the board when omitted
+  objectives?: Objective[]
+  // Any of these costs a life; all of them when omitted
+  loseConditions?: LoseCondition[]
+  // Puzzles: the exact bubbles to shoot, in order, repeating if shotLimit is longer
+  shotSequence?: BubbleColor[]
+  // Shots allowed; the length of shotSequence when that is given and this isn't
+  shotLimit?: number
+}
+
+// Campaign runs through the authored levels; endless keeps pushing new rows in until the board
+// reaches the shooter; puzzles are authored boards with a fixed shot queue and set objectives
+export type GameMode = 'campaign' | 'endless' | 'puzzle'
+
+export type GameState = 'menu' | 'levelIntro' | 'playing' | 'paused' | 'levelComplete' | 'settings' | 'won' | 'lost'
+
+// Snapshot of what the HUD shows, for the screen-reader status layer
+export interface GameStatus {
+  state: GameState
+  level: number
+  score: number
+  lives: number
+  combo: number
+  currentBubble: BubbleColor | null
+  nextBubble: BubbleColor | null
+  swapsRemaining: number | null
+  timeRemaining: number | null
+  // Seconds and missed shots until the next rows are pushed in, in endless mode
+  pushRemaining: number | null
+  missesRemaining: number | null
+  shotsRemaining: number | null
+  objectives: ObjectiveProgress[]
+}
+
+export interface LevelSummary {
+  mode: GameMode
+  level: number
+  // Everything earned during the level, bonuses included
+  levelScore: number
+  breakdown: ScoreBreakdown
+  shots: number
+  // Shots that popped something; power-ups always count
+  matchedShots: number
+  maxCombo: number
+  // Running score including this level's bonus
+  totalScore: number
+  final: boolean
+  // 1 for clearing, plus one each for finishing within par shots and reaching the target score;
+  // enough skill moves make up for one that was missed
+  stars: number
+  parShots: number
+  targetScore: number
+  // Bank shots and avalanches on this level
+  skillMoves: number
+  skillTarget: number
+}
+
+// Notifications for UI outside the canvas; delivered after the engine finishes updating
+export type GameEvent =
+  | { type: 'stateChange'; from: GameState; to: GameState }
+  | { type: 'levelIntro'; level: number; config: LevelConfig; mode: GameMode }
+  | { type: 'levelComplete'; summary: LevelSummary }
+  | { type: 'score'; event: ScoreEvent }
+  // Matched or blown-up bubbles starting to pop, and bubbles that came loose and fell off the board
+  | { type: 'bubblesPopped'; bubbles: Bubble[] }
+  | { type: 'bubblesDropped'; bubbles: Bubble[] }
+  // Moments worth a sound
+  | { type: 'shot'; color: BubbleColor }
+  | { type: 'wallBounce' }
+  | { type: 'snap'; color: BubbleColor }
+  | { type: 'match'; count: number; combo: number }
+  | { type: 'bomb'; count: number }
+  | { type: 'freeze'; seconds: number }
+  | { type: 'lifeLost'; lives: number; reason: LoseCondition }
+  // How far the board has come down towards the loss line, from 0 to 1 in steps of 0.1; sent
+  // when it changes
+  | { type: 'pressure'; level: number }
+  // The last shot was taken back, in puzzle mode
+  | { type: 'shotUndone' }
+  // Endless mode: rows pushed in at the top, and the difficulty stepping up to a new level
+  | { type: 'rowsPushed'; rows: number }
+  | { type: 'difficultyUp'; level: number; config: LevelConfig }
+  // `rowsPushed` is only counted in endless mode
+  | { type: 'gameOver'; mode: GameMode; won: boolean; score: number; maxCombo: number; level: number; shots: number; matchedShots: number; rowsPushed: number }
+
+// Input commands are queued and applied at the start of the next engine tick
+export type GameCommand =
+  | { type: 'aim'; angle: number }
+  | { type: 'aimAt'; x: number; y: number }
+  | { type: 'fire' }
+  | { type: 'swap' }
+  | { type: 'confirm' }
+  // Starts a fresh run on any level from the menu
+  | { type: 'selectLevel'; level: number }
+  | { type: 'startEndless' }
+  | { type: 'selectPuzzle'; puzzle: number }
+  // Takes back the last shot, in puzzle mode
+  | { type: 'undo' }
+  | { type: 'pause' }
+  | { type: 'resume' }
+  | { type: 'openSettings' }
+  | { type: 'closeSettings' }
+  | { type: 'quit' }